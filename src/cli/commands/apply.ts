@@ -2,16 +2,26 @@
  * Apply command - apply configuration to a project
  */
 
-import { Command } from "commander";
+import { Command, Option } from "commander";
+import { stat } from "fs/promises";
 import { resolve } from "path";
 import type { ApplyMode } from "../../lib/config/types.js";
+import { CONFLICT_STRATEGIES, type ConflictStrategy } from "../../lib/constants.js";
+import { validateConfigId } from "../../lib/config/validator.js";
 import { LibraryManager } from "../../lib/library/index.js";
-import { applyConfiguration, applyWithResolvedConflicts } from "../../lib/apply/index.js";
+import {
+  applyConfiguration,
+  applyWithResolvedConflicts,
+  getUnresolvedConflicts,
+} from "../../lib/apply/index.js";
+import { loadStrategyRules } from "../../lib/apply/strategy.js";
 import { getGlobalOptions, handleError, verboseLog } from "../index.js";
 import {
   style,
   formatFileOp,
   formatApplyResult,
+  printRollback,
+  printWarnings,
   blankLine,
   printNextSteps,
 } from "../utils/output.js";
@@ -23,15 +33,23 @@ import { resolveConflicts, displayResolutionSummary } from "../utils/conflict.js
 export function createApplyCommand(): Command {
   const cmd = new Command("apply")
     .description("Apply a configuration to a project directory")
-    .argument("<config-id>", "Configuration to apply")
-    .argument("[target-path]", "Target directory (default: current directory)", ".")
+    .argument(
+      "<config-id...>",
+      "Configurations to apply, layered in order, then the target directory (default: current directory)"
+    )
     .option("--force", "Replace existing files without prompting")
     .option("--merge", "Attempt to merge with existing files")
     .option("--dry-run", "Preview changes without writing files")
     .option("--no-interactive", "Fail on conflicts instead of prompting")
-    .action(async (configId: string, targetPath: string, options) => {
+    .addOption(
+      new Option("--strategy <strategy>", "Resolve conflicts without prompting").choices(
+        CONFLICT_STRATEGIES
+      )
+    )
+    .option("--strategy-file <path>", "Per-file conflict strategies (YAML or JSON)")
+    .action(async (args: string[], options) => {
       try {
-        await runApplyCommand(configId, targetPath, options, cmd);
+        await runApplyCommand(args, options, cmd);
       } catch (error) {
         handleError(error);
       }
@@ -45,16 +63,31 @@ interface ApplyOptions {
   merge?: boolean;
   dryRun?: boolean;
   interactive?: boolean;
+  strategy?: ConflictStrategy;
+  strategyFile?: string;
 }
 
-async function runApplyCommand(
-  configId: string,
-  targetPath: string,
-  options: ApplyOptions,
-  cmd: Command
-): Promise<void> {
+/**
+ * Whether a trailing argument is the target directory. An argument that could be a
+ * configuration ID only counts when the directory already exists, so a mistyped ID
+ * fails as an unknown configuration instead of becoming a new project directory.
+ */
+async function isTargetPath(arg: string, library: LibraryManager): Promise<boolean> {
+  if (await library.configurationExists(arg)) {
+    return false;
+  }
+  if (!validateConfigId(arg).valid) {
+    return true;
+  }
+  try {
+    return (await stat(resolve(arg))).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+async function runApplyCommand(args: string[], options: ApplyOptions, cmd: Command): Promise<void> {
   const globalOpts = getGlobalOptions(cmd);
-  const resolvedPath = resolve(targetPath);
 
   // Create library manager
   const library = new LibraryManager(globalOpts.library);
@@ -63,11 +96,25 @@ async function runApplyCommand(
   const bundledPath = new URL("../../bundled", import.meta.url).pathname;
   library.setBundledPath(bundledPath);
 
-  // Get configuration
-  const config = await library.getConfiguration(configId);
+  // The last argument is the target directory unless it names a configuration
+  const configIds = [...args];
+  let targetPath = ".";
+  if (configIds.length > 1 && (await isTargetPath(configIds[configIds.length - 1], library))) {
+    targetPath = configIds.pop()!;
+  }
+  const resolvedPath = resolve(targetPath);
+  const configId = configIds.join("+");
+
+  // Get configurations (layered in the given order)
+  const configs = await Promise.all(configIds.map((id) => library.getConfiguration(id)));
+  const strategyRules = options.strategyFile
+    ? await loadStrategyRules(resolve(options.strategyFile))
+    : undefined;
 
   verboseLog(`Applying configuration "${configId}" to ${resolvedPath}`);
-  verboseLog(`Configuration has ${config.files.length} files`);
+  for (const config of configs) {
+    verboseLog(`Configuration "${config.id}" has ${config.files.length} files`);
+  }
 
   // Determine apply mode
   let mode: ApplyMode = "create";
@@ -89,45 +136,62 @@ async function runApplyCommand(
 
   // Apply configuration
   const result = await applyConfiguration(
-    config,
+    configs,
     {
       configId,
       targetPath: resolvedPath,
       mode,
       dryRun: options.dryRun,
       noInteractive: options.interactive === false,
+      strategy: options.strategy,
+      strategyRules,
     },
-    async (id) => {
+    async (id, range) => {
       try {
-        return await library.getConfiguration(id);
+        return await library.getConfigurationInRange(id, range);
       } catch {
         return undefined;
       }
     }
   );
 
-  // Handle conflicts with interactive resolution
-  if (result.conflicts.length > 0 && !options.dryRun && options.interactive !== false) {
-    console.log(
-      style.warning(`Found ${result.conflicts.length} conflict(s) that need resolution.`)
-    );
+  // Handle conflicts with interactive resolution (strategies already resolved the rest)
+  const unresolved = getUnresolvedConflicts(result);
+  if (unresolved.length > 0 && !options.dryRun && options.interactive !== false) {
+    console.log(style.warning(`Found ${unresolved.length} conflict(s) that need resolution.`));
     blankLine();
 
     // Resolve conflicts interactively
-    const resolved = await resolveConflicts(result.conflicts);
+    const resolved = await resolveConflicts(unresolved);
 
     // Apply the resolved files
-    const resolveResult = await applyWithResolvedConflicts(resolved, resolvedPath);
+    const resolveResult = await applyWithResolvedConflicts(
+      resolved,
+      resolvedPath,
+      result.lock,
+      result.backupId
+    );
 
     // Display summary
     displayResolutionSummary(resolved);
     blankLine();
 
     // Update result with resolution outcome
-    result.filesModified.push(...resolveResult.filesModified);
+    if (resolveResult.rolledBack === undefined) {
+      result.filesModified.push(...resolveResult.filesModified);
+      result.backupId = resolveResult.backupId ?? result.backupId;
+    } else {
+      // The failed write undid the first pass as well, so nothing was applied
+      result.filesCreated = [];
+      result.filesModified = [];
+      result.backupId = undefined;
+      result.lock = undefined;
+      result.rolledBack = resolveResult.rolledBack;
+      result.filesRestored = resolveResult.filesRestored;
+    }
     result.filesSkipped.push(...resolveResult.filesSkipped);
     result.errors.push(...resolveResult.errors);
-    result.conflicts = [];
+    result.conflicts = result.conflicts.filter((conflict) => conflict.resolution !== undefined);
     result.success = resolveResult.success && result.errors.length === 0;
   }
 
@@ -150,6 +214,8 @@ async function runApplyCommand(
     console.log(formatFileOp("skip", file));
   }
 
+  printWarnings(result.warnings);
+
   blankLine();
 
   // Show summary
@@ -166,7 +232,7 @@ async function runApplyCommand(
         result.filesCreated.length,
         result.filesModified.length,
         result.filesSkipped.length,
-        result.conflicts.length
+        getUnresolvedConflicts(result).length
       )
     );
 
@@ -177,13 +243,15 @@ async function runApplyCommand(
         "Adjust .claude/settings.json as needed",
       ]);
     }
-  } else if (result.conflicts.length > 0) {
+  } else if (getUnresolvedConflicts(result).length > 0) {
     // Conflicts exist but not resolved (non-interactive or dry-run)
     console.log(style.warning("Configuration has conflicts that need resolution."));
     console.log(
-      style.dim("Run without --dry-run to resolve interactively, or use --force to overwrite.")
+      style.dim(
+        `Run without ${options.dryRun ? "--dry-run" : "--no-interactive"} to resolve interactively, or use --force or --strategy.`
+      )
     );
-    for (const conflict of result.conflicts) {
+    for (const conflict of getUnresolvedConflicts(result)) {
       console.log(style.dim(`  - ${conflict.path}`));
     }
   } else {
@@ -191,5 +259,6 @@ async function runApplyCommand(
     for (const error of result.errors) {
       console.log(style.dim(`  ${error}`));
     }
+    printRollback(result);
   }
 }
@@ -0,0 +1,103 @@
+/**
+ * Clone command - copy a configuration into an editable user configuration
+ */
+
+import { Command } from "commander";
+import { LibraryManager } from "../../lib/library/index.js";
+import { validateConfigId } from "../../lib/config/validator.js";
+import { getGlobalOptions, handleError } from "../index.js";
+import { style, printNextSteps } from "../utils/output.js";
+
+/**
+ * Create the clone command
+ */
+export function createCloneCommand(): Command {
+  const cmd = new Command("clone")
+    .alias("fork")
+    .description(
+      "Copy a bundled or user configuration into an editable configuration (the copy keeps extending the source's parents unless --flatten is given)"
+    )
+    .argument("<source>", "Configuration to copy")
+    .argument("<new-id>", "Identifier for the copy")
+    .option("--name <name>", "Display name for the copy")
+    .option("--track", "Record the source in forkedFrom so the copy can be compared with it later")
+    .option("--flatten", "Copy the resolved files of the whole inheritance chain and drop extends")
+    .action(async (sourceId: string, newId: string, options) => {
+      try {
+        await runCloneCommand(sourceId, newId, options, cmd);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  return cmd;
+}
+
+interface CloneCommandOptions {
+  name?: string;
+  track?: boolean;
+  flatten?: boolean;
+}
+
+async function runCloneCommand(
+  sourceId: string,
+  newId: string,
+  options: CloneCommandOptions,
+  cmd: Command
+): Promise<void> {
+  const globalOpts = getGlobalOptions(cmd);
+
+  // Validate new ID
+  const idValidation = validateConfigId(newId);
+  if (!idValidation.valid) {
+    console.error(style.error("Invalid configuration ID:"));
+    for (const error of idValidation.errors) {
+      console.error(style.dim(`  ${error}`));
+    }
+    process.exit(1);
+  }
+
+  // Create library manager
+  const library = new LibraryManager(globalOpts.library);
+
+  // Set bundled path
+  const bundledPath = new URL("../../bundled", import.meta.url).pathname;
+  library.setBundledPath(bundledPath);
+
+  const clone = await library.cloneConfiguration(sourceId, newId, {
+    name: options.name,
+    track: options.track,
+    flatten: options.flatten,
+  });
+
+  // Output results
+  if (globalOpts.json) {
+    console.log(
+      JSON.stringify(
+        {
+          id: clone.id,
+          source: sourceId,
+          version: clone.version,
+          forkedFrom: clone.forkedFrom,
+          path: clone.sourcePath,
+        },
+        null,
+        2
+      )
+    );
+    return;
+  }
+
+  console.log(style.success(`Configuration "${sourceId}" cloned to "${newId}".`));
+  if (clone.forkedFrom) {
+    console.log(style.dim(`  Forked from ${clone.forkedFrom}`));
+  }
+  if (clone.extends) {
+    console.log(
+      style.dim(
+        `  Extends ${[clone.extends].flat().join(", ")}; later changes to parents are inherited`
+      )
+    );
+  }
+  printNextSteps([`Edit files in ${clone.sourcePath}`, `cpm show ${newId} --files`]);
+}
@@ -105,8 +105,8 @@ async function runCreateCommand(
     config = await createFromOptions(configId, options);
   }
 
-  // Validate configuration
-  const validation = validateConfiguration(config);
+  // Validate configuration (including metadata inherited from its parents)
+  const validation = validateConfiguration(await library.withInheritedMetadata(config));
   if (!validation.valid) {
     console.error(style.error("Configuration validation failed:"));
     for (const error of validation.errors) {
@@ -164,10 +164,11 @@ async function createFromOptions(configId: string, options: CreateOptions): Prom
     description: options.description || `Configuration for ${configId}`,
     version: "1.0.0",
     extends: options.extends,
-    projectTypes: (options.projectType || ["web"]) as ProjectType[],
-    languages: options.language || ["typescript"],
+    // A child inherits what it leaves undeclared from its parents
+    projectTypes: (options.projectType || (options.extends ? [] : ["web"])) as ProjectType[],
+    languages: options.language || (options.extends ? [] : ["typescript"]),
     tags: options.tag || [],
-    testingApproach: "unit",
+    testingApproach: options.extends ? undefined : "unit",
     created: now,
     updated: now,
     files: ["CLAUDE.md", ".claude/settings.json"],
@@ -334,10 +335,11 @@ async function createFromProject(
     description: options.description || `Configuration extracted from ${projectPath}`,
     version: "1.0.0",
     extends: options.extends,
-    projectTypes: (options.projectType || ["web"]) as ProjectType[],
-    languages: options.language || ["typescript"],
+    // A child inherits what it leaves undeclared from its parents
+    projectTypes: (options.projectType || (options.extends ? [] : ["web"])) as ProjectType[],
+    languages: options.language || (options.extends ? [] : ["typescript"]),
     tags: options.tag || [],
-    testingApproach: "unit",
+    testingApproach: options.extends ? undefined : "unit",
     created: now,
     updated: now,
     files: ["CLAUDE.md", ".claude/settings.json"],
@@ -0,0 +1,95 @@
+/**
+ * Graph command - visualise the library's inheritance tree
+ */
+
+import { Command, Option } from "commander";
+import { GRAPH_FORMATS, type GraphFormat } from "../../lib/constants.js";
+import { LibraryManager } from "../../lib/library/index.js";
+import {
+  buildInheritanceGraph,
+  renderAsciiTree,
+  renderDot,
+  renderMermaid,
+  type InheritanceGraph,
+} from "../../lib/library/graph.js";
+import { getGlobalOptions, handleError } from "../index.js";
+import { style, blankLine } from "../utils/output.js";
+
+/**
+ * Create the graph command
+ */
+export function createGraphCommand(): Command {
+  const cmd = new Command("graph")
+    .description("Show which configurations extend which")
+    .addOption(
+      new Option("-f, --format <format>", "Output format").choices(GRAPH_FORMATS).default("ascii")
+    )
+    .action(async (options) => {
+      try {
+        await runGraphCommand(options, cmd);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  return cmd;
+}
+
+interface GraphOptions {
+  format: GraphFormat;
+}
+
+async function runGraphCommand(options: GraphOptions, cmd: Command): Promise<void> {
+  const globalOpts = getGlobalOptions(cmd);
+
+  // Create library manager
+  const library = new LibraryManager(globalOpts.library);
+
+  // Set bundled path
+  const bundledPath = new URL("../../bundled", import.meta.url).pathname;
+  library.setBundledPath(bundledPath);
+
+  const graph = buildInheritanceGraph(await library.getAllConfigurations());
+
+  if (globalOpts.json) {
+    console.log(JSON.stringify(graph, null, 2));
+    return;
+  }
+
+  switch (options.format) {
+    case "mermaid":
+      console.log(renderMermaid(graph));
+      break;
+    case "dot":
+      console.log(renderDot(graph));
+      break;
+    default:
+      outputAscii(graph);
+  }
+}
+
+function outputAscii(graph: InheritanceGraph): void {
+  if (graph.nodes.length === 0) {
+    console.log(style.dim("No configurations found."));
+    return;
+  }
+
+  console.log(
+    renderAsciiTree(graph, {
+      bundled: style.cyan,
+      missing: style.red,
+      cycle: style.yellow,
+      dim: style.dim,
+    })
+  );
+
+  if (graph.missing.length > 0 || graph.cycles.length > 0) {
+    blankLine();
+    for (const id of graph.missing) {
+      console.log(style.warning(`Parent configuration not found: ${id}`));
+    }
+    for (const cycle of graph.cycles) {
+      console.log(style.warning(`Circular inheritance detected: ${cycle.join(" → ")}`));
+    }
+  }
+}
@@ -5,6 +5,7 @@
 import { Command } from "commander";
 import { join } from "path";
 import { LibraryManager } from "../../lib/library/index.js";
+import { ConfigHasDependentsError } from "../../lib/errors.js";
 import { getGlobalOptions, handleError } from "../index.js";
 import { style, blankLine } from "../utils/output.js";
 import { confirmWithText } from "../utils/prompts.js";
@@ -17,6 +18,8 @@ export function createRemoveCommand(): Command {
     .description("Remove a configuration from the library")
     .argument("<config-id>", "Configuration to remove")
     .option("--force", "Remove without confirmation")
+    .option("--cascade", "Also remove configurations that extend it")
+    .option("--reparent <id>", "Make configurations that extend it extend <id> instead")
     .action(async (configId: string, options) => {
       try {
         await runRemoveCommand(configId, options, cmd);
@@ -30,6 +33,8 @@ export function createRemoveCommand(): Command {
 
 interface RemoveOptions {
   force?: boolean;
+  cascade?: boolean;
+  reparent?: string;
 }
 
 async function runRemoveCommand(
@@ -56,6 +61,21 @@ async function runRemoveCommand(
     process.exit(1);
   }
 
+  if (options.cascade && options.reparent !== undefined) {
+    console.error(style.error("Use either --cascade or --reparent, not both."));
+    process.exit(1);
+  }
+
+  // Configurations that extend it must be removed or re-parented
+  const dependents = await library.getDependents(configId);
+  if (dependents.length > 0 && !options.cascade && options.reparent === undefined) {
+    throw new ConfigHasDependentsError(
+      configId,
+      dependents.map((d) => d.id)
+    );
+  }
+  const cascaded = options.cascade ? await library.getAllDependents(configId) : [];
+
   const configPath = join(library.getLibraryPath(), configId);
 
   // Confirm removal
@@ -64,6 +84,16 @@ async function runRemoveCommand(
     blankLine();
     console.log(style.dim("  This will permanently delete:"));
     console.log(style.dim(`    ${configPath}/`));
+    for (const dependent of cascaded) {
+      console.log(style.dim(`    ${join(library.getLibraryPath(), dependent.id)}/`));
+    }
+    if (options.reparent !== undefined && dependents.length > 0) {
+      blankLine();
+      console.log(style.dim(`  These configurations will extend '${options.reparent}' instead:`));
+      for (const dependent of dependents) {
+        console.log(style.dim(`    ${dependent.id}`));
+      }
+    }
     blankLine();
 
     const confirmed = await confirmWithText("", "yes");
@@ -75,13 +105,33 @@ async function runRemoveCommand(
   }
 
   // Remove configuration
-  await library.removeConfig(configId);
+  const result = await library.removeConfig(configId, {
+    cascade: options.cascade,
+    reparent: options.reparent,
+  });
 
   // Output results
   if (globalOpts.json) {
-    console.log(JSON.stringify({ id: configId, removed: true }, null, 2));
+    console.log(
+      JSON.stringify(
+        {
+          id: configId,
+          removed: true,
+          cascaded: result.removed.filter((id) => id !== configId),
+          reparented: result.reparented,
+        },
+        null,
+        2
+      )
+    );
     return;
   }
 
   console.log(style.success(`Configuration "${configId}" removed.`));
+  for (const id of result.removed.filter((id) => id !== configId)) {
+    console.log(style.success(`Configuration "${id}" removed (extended "${configId}").`));
+  }
+  for (const id of result.reparented) {
+    console.log(style.success(`Configuration "${id}" now extends "${options.reparent}".`));
+  }
 }
@@ -0,0 +1,65 @@
+/**
+ * Rename command - rename a configuration and update everything that extends it
+ */
+
+import { Command } from "commander";
+import { LibraryManager } from "../../lib/library/index.js";
+import { validateConfigId } from "../../lib/config/validator.js";
+import { getGlobalOptions, handleError } from "../index.js";
+import { style } from "../utils/output.js";
+
+/**
+ * Create the rename command
+ */
+export function createRenameCommand(): Command {
+  const cmd = new Command("rename")
+    .description("Rename a configuration and update configurations that extend it")
+    .argument("<config-id>", "Configuration to rename")
+    .argument("<new-id>", "New configuration identifier")
+    .action(async (configId: string, newId: string) => {
+      try {
+        await runRenameCommand(configId, newId, cmd);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  return cmd;
+}
+
+async function runRenameCommand(configId: string, newId: string, cmd: Command): Promise<void> {
+  const globalOpts = getGlobalOptions(cmd);
+
+  // Validate new ID
+  const idValidation = validateConfigId(newId);
+  if (!idValidation.valid) {
+    console.error(style.error("Invalid configuration ID:"));
+    for (const error of idValidation.errors) {
+      console.error(style.dim(`  ${error}`));
+    }
+    process.exit(1);
+  }
+
+  // Create library manager
+  const library = new LibraryManager(globalOpts.library);
+
+  // Set bundled path
+  const bundledPath = new URL("../../bundled", import.meta.url).pathname;
+  library.setBundledPath(bundledPath);
+
+  const updated = await library.renameConfig(configId, newId);
+
+  // Output results
+  if (globalOpts.json) {
+    console.log(JSON.stringify({ id: configId, newId, updated }, null, 2));
+    return;
+  }
+
+  console.log(style.success(`Configuration "${configId}" renamed to "${newId}".`));
+  for (const id of updated) {
+    console.log(style.success(`Configuration "${id}" now extends "${newId}".`));
+  }
+  console.log(
+    style.dim(`Projects applied from "${configId}" keep the old ID until they are re-applied.`)
+  );
+}
@@ -62,8 +62,10 @@ async function runSearchCommand(
     criteria.languages = [options.language];
   }
 
-  // Get all configurations
-  const allConfigs = await library.getAllConfigurations();
+  // Get all configurations, with metadata inherited from their parents
+  const allConfigs = await Promise.all(
+    (await library.getAllConfigurations()).map((config) => library.withInheritedMetadata(config))
+  );
 
   // Search
   const results = searchConfigurations(allConfigs, criteria);
@@ -19,6 +19,7 @@ export function createShowCommand(): Command {
     .option("--files", "Show list of files included")
     .option("--content", "Show full file contents")
     .option("--resolved", "Show inheritance-resolved configuration")
+    .option("--blame", "With --resolved, show which configuration contributed each section or key")
     .action(async (configId: string, options) => {
       try {
         await runShowCommand(configId, options, cmd);
@@ -34,6 +35,7 @@ interface ShowOptions {
   files?: boolean;
   content?: boolean;
   resolved?: boolean;
+  blame?: boolean;
 }
 
 async function runShowCommand(configId: string, options: ShowOptions, cmd: Command): Promise<void> {
@@ -49,11 +51,11 @@ async function runShowCommand(configId: string, options: ShowOptions, cmd: Comma
   // Get configuration
   let config: Configuration | ResolvedConfiguration = await library.getConfiguration(configId);
 
-  // Resolve inheritance if requested
-  if (options.resolved && config.extends) {
-    config = await resolveInheritance(config, async (id) => {
+  // Resolve inheritance if requested (always for blame, even without parents)
+  if (options.resolved && (config.extends || options.blame)) {
+    config = await resolveInheritance(config, async (id, range) => {
       try {
-        return await library.getConfiguration(id);
+        return await library.getConfigurationInRange(id, range);
       } catch {
         return undefined;
       }
@@ -79,6 +81,7 @@ function outputJson(config: Configuration | ResolvedConfiguration, options: Show
     languages: config.languages,
     tags: config.tags,
     testingApproach: config.testingApproach,
+    forkedFrom: config.forkedFrom,
     created: config.created.toISOString(),
     updated: config.updated.toISOString(),
     bundled: config.bundled,
@@ -108,6 +111,10 @@ function outputJson(config: Configuration | ResolvedConfiguration, options: Show
     }));
   }
 
+  if ("provenance" in config && options.blame) {
+    output.provenance = config.provenance;
+  }
+
   console.log(JSON.stringify(output, null, 2));
 }
 
@@ -116,7 +123,7 @@ function outputText(config: Configuration | ResolvedConfiguration, options: Show
 
   if ("inheritanceChain" in config && config.inheritanceChain.length > 1) {
     blankLine();
-    console.log(style.dim("Inheritance chain:"));
+    console.log(style.dim("Inheritance chain (linearized, most specific first):"));
     console.log(`  ${config.inheritanceChain.join(" → ")}`);
   }
 
@@ -132,4 +139,21 @@ function outputText(config: Configuration | ResolvedConfiguration, options: Show
       console.log(file.content);
     }
   }
+
+  if ("provenance" in config && options.blame && config.provenance) {
+    blankLine();
+    console.log(style.bold("Provenance:"));
+
+    for (const file of config.provenance) {
+      blankLine();
+      console.log(style.cyan(`--- ${file.path} ---`));
+      const keys = file.entries.map((entry) => entry.key || "(top level)");
+      const width = Math.max(...keys.map((key) => key.length), 0);
+      file.entries.forEach((entry, i) => {
+        console.log(
+          `  ${keys[i].padEnd(width)}  ${entry.source} ${style.dim(`(${entry.action})`)}`
+        );
+      });
+    }
+  }
 }
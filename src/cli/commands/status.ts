@@ -0,0 +1,148 @@
+/**
+ * Status command - detect drift between a project and its applied configuration
+ */
+
+import { Command } from "commander";
+import { resolve } from "path";
+import { LibraryManager } from "../../lib/library/index.js";
+import { resolveLayers } from "../../lib/config/resolver.js";
+import { readLockfile } from "../../lib/apply/lockfile.js";
+import { getProjectStatus, type FileDriftState } from "../../lib/apply/status.js";
+import { formatDiffForDisplay } from "../../lib/apply/differ.js";
+import { LockfileNotFoundError } from "../../lib/errors.js";
+import { EXIT_CODES } from "../../lib/constants.js";
+import { getGlobalOptions, handleError } from "../index.js";
+import { style, blankLine, formatDate, isNoColor } from "../utils/output.js";
+
+/**
+ * Create the status command
+ */
+export function createStatusCommand(): Command {
+  const cmd = new Command("status")
+    .description("Show drift between a project and its applied configuration")
+    .argument("[target-path]", "Project directory (default: current directory)", ".")
+    .option("--diff", "Show diffs for drifted files")
+    .option("--exit-code", "Exit with status 1 if the project has drifted")
+    .action(async (targetPath: string, options) => {
+      try {
+        await runStatusCommand(targetPath, options, cmd);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  return cmd;
+}
+
+interface StatusOptions {
+  diff?: boolean;
+  exitCode?: boolean;
+}
+
+async function runStatusCommand(
+  targetPath: string,
+  options: StatusOptions,
+  cmd: Command
+): Promise<void> {
+  const globalOpts = getGlobalOptions(cmd);
+  const resolvedPath = resolve(targetPath);
+
+  // Read what was applied
+  const lock = await readLockfile(resolvedPath);
+  if (!lock) {
+    throw new LockfileNotFoundError(resolvedPath);
+  }
+
+  // Create library manager
+  const library = new LibraryManager(globalOpts.library);
+
+  // Set bundled path
+  const bundledPath = new URL("../../bundled", import.meta.url).pathname;
+  library.setBundledPath(bundledPath);
+
+  // Resolve the configuration (or its layers) as it stands today
+  const configs = await Promise.all(
+    (lock.layers ?? [lock.configId]).map((id) => library.getConfiguration(id))
+  );
+  const resolvedConfig = await resolveLayers(configs, async (id, range) => {
+    try {
+      return await library.getConfigurationInRange(id, range);
+    } catch {
+      return undefined;
+    }
+  });
+
+  const status = await getProjectStatus(resolvedPath, lock, resolvedConfig);
+
+  // Output results
+  if (globalOpts.json) {
+    console.log(
+      JSON.stringify(
+        {
+          ...status,
+          files: status.files.map((f) => ({
+            path: f.path,
+            state: f.state,
+            local: f.local,
+            upstream: f.upstream,
+            diffSummary: f.diffSummary,
+            diff: options.diff ? f.diff?.unifiedDiff : undefined,
+          })),
+        },
+        null,
+        2
+      )
+    );
+  } else {
+    console.log(`Configuration '${style.cyan(status.configId)}' in ${resolvedPath}`);
+    blankLine();
+    console.log(
+      `  ${style.dim("Applied:")} ${status.appliedVersion} on ${formatDate(new Date(status.appliedAt))}`
+    );
+    console.log(`  ${style.dim("Library:")} ${status.currentVersion}`);
+    blankLine();
+
+    for (const file of status.files) {
+      const summary = file.diffSummary ? style.dim(` (${file.diffSummary})`) : "";
+      console.log(`  ${formatDriftState(file.state)} ${file.path}${summary}`);
+    }
+
+    blankLine();
+
+    if (status.drifted) {
+      console.log(style.warning("Project has drifted from its configuration."));
+    } else {
+      console.log(style.success("Project is up to date with its configuration."));
+    }
+
+    if (options.diff) {
+      for (const file of status.files) {
+        if (file.diff?.hasDifferences) {
+          blankLine();
+          console.log(formatDiffForDisplay(file.diff, !isNoColor()));
+        }
+      }
+    }
+  }
+
+  if (options.exitCode && status.drifted) {
+    process.exit(EXIT_CODES.GENERAL_ERROR);
+  }
+}
+
+/**
+ * Format a drift state label with padding and color
+ */
+function formatDriftState(state: FileDriftState): string {
+  const label = state.padEnd(10);
+  switch (state) {
+    case "unchanged":
+      return style.green(label);
+    case "modified":
+      return style.yellow(label);
+    case "outdated":
+      return style.cyan(label);
+    case "diverged":
+      return style.red(label);
+  }
+}
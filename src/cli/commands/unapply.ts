@@ -0,0 +1,175 @@
+/**
+ * Unapply command - remove what a configuration contributed to a project
+ */
+
+import { Command } from "commander";
+import { resolve } from "path";
+import { LibraryManager } from "../../lib/library/index.js";
+import { resolveInheritance } from "../../lib/config/resolver.js";
+import { readLockfile } from "../../lib/apply/lockfile.js";
+import {
+  planUnapply,
+  executeUnapply,
+  type UnapplyFilePlan,
+  type UnapplyPlan,
+} from "../../lib/apply/unapply.js";
+import { ContributionEditedError } from "../../lib/errors.js";
+import { getGlobalOptions, handleError } from "../index.js";
+import { style, blankLine, formatFileOp, printRollback } from "../utils/output.js";
+import { confirm } from "../utils/prompts.js";
+
+/**
+ * Create the unapply command
+ */
+export function createUnapplyCommand(): Command {
+  const cmd = new Command("unapply")
+    .description("Remove the content a configuration contributed to a project")
+    .argument("<config-id>", "Configuration to remove")
+    .argument("[target-path]", "Project directory (default: current directory)", ".")
+    .option("--dry-run", "Show what would be removed without writing files")
+    .option("--force", "Also remove contributed content that was edited locally")
+    .option("--no-interactive", "Fail on edited content instead of prompting")
+    .action(async (configId: string, targetPath: string, options) => {
+      try {
+        await runUnapplyCommand(configId, targetPath, options, cmd);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  return cmd;
+}
+
+interface UnapplyOptions {
+  dryRun?: boolean;
+  force?: boolean;
+  interactive?: boolean;
+}
+
+async function runUnapplyCommand(
+  configId: string,
+  targetPath: string,
+  options: UnapplyOptions,
+  cmd: Command
+): Promise<void> {
+  const globalOpts = getGlobalOptions(cmd);
+  const resolvedPath = resolve(targetPath);
+
+  // Create library manager
+  const library = new LibraryManager(globalOpts.library);
+
+  // Set bundled path
+  const bundledPath = new URL("../../bundled", import.meta.url).pathname;
+  library.setBundledPath(bundledPath);
+
+  const config = await library.getConfiguration(configId);
+  const resolvedConfig = await resolveInheritance(config, async (id, range) => {
+    try {
+      return await library.getConfigurationInRange(id, range);
+    } catch {
+      return undefined;
+    }
+  });
+
+  const lock = await readLockfile(resolvedPath).catch(() => undefined);
+  const plan = await planUnapply(resolvedPath, resolvedConfig, lock);
+
+  // Dry run - show the plan only
+  if (options.dryRun) {
+    if (globalOpts.json) {
+      console.log(JSON.stringify(formatPlanJson(plan), null, 2));
+    } else {
+      printPlan(plan);
+      blankLine();
+      console.log(style.info("Dry run complete. No files were written."));
+    }
+    return;
+  }
+
+  if (!globalOpts.json) {
+    printPlan(plan);
+    blankLine();
+  }
+
+  // Decide what happens to locally edited contributions
+  const edited = plan.files.filter((f) => f.action === "edited");
+  let forcePaths: string[] = [];
+
+  if (options.force) {
+    forcePaths = edited.map((f) => f.path);
+  } else if (edited.length > 0) {
+    if (options.interactive === false || globalOpts.json) {
+      throw new ContributionEditedError(edited.map((f) => f.path));
+    }
+
+    for (const file of edited) {
+      const remove = await confirm(
+        `Remove edited content from ${file.path} (${file.edited.join(", ")})?`
+      );
+      if (remove) {
+        forcePaths.push(file.path);
+      }
+    }
+    blankLine();
+  }
+
+  const result = await executeUnapply(plan, resolvedPath, forcePaths);
+
+  // Output results
+  if (globalOpts.json) {
+    console.log(JSON.stringify({ ...formatPlanJson(plan), ...result }, null, 2));
+    return;
+  }
+
+  if (result.success) {
+    console.log(style.success(`Removed '${plan.configId}' from ${resolvedPath}.`));
+  } else {
+    console.log(style.error("Unapply failed."));
+    for (const error of result.errors) {
+      console.log(style.dim(`  ${error}`));
+    }
+    printRollback(result);
+  }
+}
+
+/**
+ * Print the per-file unapply plan
+ */
+function printPlan(plan: UnapplyPlan): void {
+  console.log(`Removing '${style.cyan(plan.configId)}'`);
+  blankLine();
+
+  for (const file of plan.files) {
+    console.log(formatAction(file));
+  }
+}
+
+/**
+ * Format a planned action for display
+ */
+function formatAction(file: UnapplyFilePlan): string {
+  switch (file.action) {
+    case "remove":
+      return `  ${style.red("Removing:")} ${file.path}`;
+    case "strip":
+      return `  ${style.yellow("Stripping:")} ${file.path}`;
+    case "edited":
+      return `  ${style.red("Edited:")} ${file.path} ${style.dim(`(${file.edited.join(", ")})`)}`;
+    case "untouched":
+      return formatFileOp("skip", file.path);
+    case "missing":
+      return `  ${style.dim("Missing:")} ${file.path}`;
+  }
+}
+
+/**
+ * Plan representation for JSON output
+ */
+function formatPlanJson(plan: UnapplyPlan): Record<string, unknown> {
+  return {
+    configId: plan.configId,
+    version: plan.version,
+    hasEdits: plan.hasEdits,
+    files: plan.files.map((f) => ({ path: f.path, action: f.action, edited: f.edited })),
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Undo command - restore a project from the backup taken before an apply
+ */
+
+import { Command } from "commander";
+import { resolve } from "path";
+import { listBackups, restoreBackup, type Backup } from "../../lib/apply/backup.js";
+import { BackupNotFoundError } from "../../lib/errors.js";
+import { getGlobalOptions, handleError } from "../index.js";
+import { style, blankLine, formatDate } from "../utils/output.js";
+import { confirm } from "../utils/prompts.js";
+
+/**
+ * Create the undo command
+ */
+export function createUndoCommand(): Command {
+  const cmd = new Command("undo")
+    .description("Restore project files changed by the last apply (or an earlier one)")
+    .argument("[target-path]", "Project directory (default: current directory)", ".")
+    .option("--list", "List available backups")
+    .option("--backup <id>", "Undo every apply back to and including this backup")
+    .option("--force", "Restore without confirmation")
+    .action(async (targetPath: string, options) => {
+      try {
+        await runUndoCommand(targetPath, options, cmd);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  return cmd;
+}
+
+interface UndoOptions {
+  list?: boolean;
+  backup?: string;
+  force?: boolean;
+}
+
+async function runUndoCommand(
+  targetPath: string,
+  options: UndoOptions,
+  cmd: Command
+): Promise<void> {
+  const globalOpts = getGlobalOptions(cmd);
+  const resolvedPath = resolve(targetPath);
+  const backups = await listBackups(resolvedPath);
+
+  // List backups only
+  if (options.list) {
+    if (globalOpts.json) {
+      console.log(JSON.stringify(backups.map(formatBackupJson), null, 2));
+      return;
+    }
+
+    if (backups.length === 0) {
+      console.log(style.dim("No backups found."));
+      return;
+    }
+
+    for (const backup of backups) {
+      console.log(formatBackup(backup));
+    }
+    return;
+  }
+
+  if (backups.length === 0) {
+    throw new BackupNotFoundError(resolvedPath);
+  }
+
+  const index = options.backup ? backups.findIndex((b) => b.id === options.backup) : 0;
+  if (index === -1) {
+    throw new BackupNotFoundError(resolvedPath, options.backup);
+  }
+
+  // Confirm restore
+  if (!options.force && !globalOpts.json) {
+    console.log(`Undo ${index + 1} apply(s) in ${resolvedPath}?`);
+    blankLine();
+    for (const backup of backups.slice(0, index + 1)) {
+      console.log(formatBackup(backup));
+    }
+    blankLine();
+    console.log(style.dim("  Files changed since then will be overwritten."));
+    blankLine();
+
+    const confirmed = await confirm("Restore files?");
+    if (!confirmed) {
+      console.log(style.dim("Undo cancelled."));
+      return;
+    }
+  }
+
+  const result = await restoreBackup(resolvedPath, backups[index].id);
+
+  // Output results
+  if (globalOpts.json) {
+    console.log(
+      JSON.stringify(
+        {
+          backups: result.backups.map((b) => b.id),
+          restored: result.restored,
+          removed: result.removed,
+          errors: result.errors,
+          success: result.errors.length === 0,
+        },
+        null,
+        2
+      )
+    );
+    return;
+  }
+
+  for (const file of result.restored) {
+    console.log(`  ${style.yellow("Restored:")} ${file}`);
+  }
+  for (const file of result.removed) {
+    console.log(`  ${style.red("Removed:")} ${file}`);
+  }
+  blankLine();
+
+  if (result.errors.length === 0) {
+    console.log(style.success(`Undid ${result.backups.length} apply(s).`));
+  } else {
+    console.log(style.error("Undo failed. Backups were kept so you can retry."));
+    for (const error of result.errors) {
+      console.log(style.dim(`  ${error}`));
+    }
+  }
+}
+
+/**
+ * Format a backup for display
+ */
+function formatBackup(backup: Backup): string {
+  const label = backup.configId ? `${backup.configId}@${backup.version}` : "resolved conflicts";
+  return `  ${style.cyan(backup.id)}  ${label}  ${style.dim(
+    `${formatDate(new Date(backup.createdAt))}, ${backup.files.length} file(s)`
+  )}`;
+}
+
+/**
+ * Backup representation for JSON output
+ */
+function formatBackupJson(backup: Backup): Record<string, unknown> {
+  return {
+    id: backup.id,
+    createdAt: backup.createdAt,
+    configId: backup.configId,
+    version: backup.version,
+    files: backup.files.map((f) => ({ path: f.path, existed: f.content !== null })),
+  };
+}
@@ -0,0 +1,228 @@
+/**
+ * Upgrade command - move a project to a newer version of its configuration
+ */
+
+import { Command } from "commander";
+import { resolve } from "path";
+import type { Configuration } from "../../lib/config/types.js";
+import { LibraryManager } from "../../lib/library/index.js";
+import { resolveLayers } from "../../lib/config/resolver.js";
+import { readLockfile } from "../../lib/apply/lockfile.js";
+import {
+  planUpgrade,
+  executeUpgrade,
+  getUpgradeConflicts,
+  type UpgradeFilePlan,
+  type UpgradePlan,
+} from "../../lib/apply/upgrade.js";
+import {
+  LockfileNotFoundError,
+  ConflictDetectedError,
+  LayeredVersionError,
+} from "../../lib/errors.js";
+import { getGlobalOptions, handleError, verboseLog } from "../index.js";
+import { style, blankLine, formatFileOp, printRollback, printWarnings } from "../utils/output.js";
+import {
+  resolveConflicts,
+  displayResolutionSummary,
+  type ResolvedConflict,
+} from "../utils/conflict.js";
+
+/**
+ * Create the upgrade command
+ */
+export function createUpgradeCommand(): Command {
+  const cmd = new Command("upgrade")
+    .description("Upgrade a project to a newer version of its applied configuration")
+    .argument("[target-path]", "Project directory (default: current directory)", ".")
+    .option("--to <version>", "Upgrade to a specific version from library history")
+    .option("--dry-run", "Show the upgrade plan without writing files")
+    .option("--no-interactive", "Fail on conflicts instead of prompting")
+    .action(async (targetPath: string, options) => {
+      try {
+        await runUpgradeCommand(targetPath, options, cmd);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
+  return cmd;
+}
+
+interface UpgradeOptions {
+  to?: string;
+  dryRun?: boolean;
+  interactive?: boolean;
+}
+
+async function runUpgradeCommand(
+  targetPath: string,
+  options: UpgradeOptions,
+  cmd: Command
+): Promise<void> {
+  const globalOpts = getGlobalOptions(cmd);
+  const resolvedPath = resolve(targetPath);
+
+  // Read what was applied
+  const lock = await readLockfile(resolvedPath);
+  if (!lock) {
+    throw new LockfileNotFoundError(resolvedPath);
+  }
+
+  // Create library manager
+  const library = new LibraryManager(globalOpts.library);
+
+  // Set bundled path
+  const bundledPath = new URL("../../bundled", import.meta.url).pathname;
+  library.setBundledPath(bundledPath);
+
+  // Load the target version of the configuration (or the latest of each layer)
+  let configs: Configuration[];
+  if (options.to) {
+    if (lock.layers) {
+      throw new LayeredVersionError(lock.layers);
+    }
+    configs = [await library.getConfigurationVersion(lock.configId, options.to)];
+  } else {
+    configs = await Promise.all(
+      (lock.layers ?? [lock.configId]).map((id) => library.getConfiguration(id))
+    );
+  }
+
+  const resolvedConfig = await resolveLayers(configs, async (id, range) => {
+    try {
+      return await library.getConfigurationInRange(id, range);
+    } catch {
+      return undefined;
+    }
+  });
+
+  verboseLog(`Upgrading "${lock.configId}" from ${lock.version} to ${resolvedConfig.version}`);
+
+  const plan = await planUpgrade(resolvedPath, lock, resolvedConfig);
+
+  // Dry run - show the plan only
+  if (options.dryRun) {
+    if (globalOpts.json) {
+      console.log(JSON.stringify(formatPlanJson(plan), null, 2));
+    } else {
+      printPlan(plan, resolvedPath);
+      blankLine();
+      console.log(style.info("Dry run complete. No files were written."));
+    }
+    return;
+  }
+
+  if (!plan.hasChanges && plan.fromVersion === plan.toVersion) {
+    if (globalOpts.json) {
+      console.log(JSON.stringify({ ...formatPlanJson(plan), success: true }, null, 2));
+    } else {
+      console.log(style.success(`Project is already up to date with '${plan.configId}'.`));
+    }
+    return;
+  }
+
+  if (!globalOpts.json) {
+    printPlan(plan, resolvedPath);
+    blankLine();
+  }
+
+  // Resolve conflicts before writing anything
+  const conflicts = getUpgradeConflicts(plan);
+  let resolutions: ResolvedConflict[] = [];
+
+  if (conflicts.length > 0) {
+    if (options.interactive === false || globalOpts.json) {
+      throw new ConflictDetectedError(conflicts.map((c) => c.path));
+    }
+
+    console.log(style.warning(`Found ${conflicts.length} conflict(s) that need resolution.`));
+    blankLine();
+    resolutions = await resolveConflicts(conflicts);
+    displayResolutionSummary(resolutions);
+    blankLine();
+  }
+
+  const result = await executeUpgrade(plan, resolvedPath, resolvedConfig, lock, resolutions);
+
+  // Output results
+  if (globalOpts.json) {
+    console.log(JSON.stringify({ ...formatPlanJson(plan), ...result, lock: undefined }, null, 2));
+    return;
+  }
+
+  if (result.success) {
+    console.log(
+      style.success(`Upgraded '${plan.configId}' from ${plan.fromVersion} to ${plan.toVersion}.`)
+    );
+  } else {
+    console.log(style.error("Upgrade failed."));
+    for (const error of result.errors) {
+      console.log(style.dim(`  ${error}`));
+    }
+    printRollback(result);
+  }
+}
+
+/**
+ * Print the per-file upgrade plan
+ */
+function printPlan(plan: UpgradePlan, targetPath: string): void {
+  console.log(
+    `Upgrading '${style.cyan(plan.configId)}' ${plan.fromVersion} → ${plan.toVersion} in ${targetPath}`
+  );
+  blankLine();
+
+  for (const file of plan.files) {
+    const summary = file.diffSummary ? style.dim(` (${file.diffSummary})`) : "";
+    console.log(`${formatAction(file)}${summary}`);
+  }
+
+  printWarnings(plan.files.flatMap((f) => (f.warnings ?? []).map((w) => `${f.path}: ${w}`)));
+}
+
+/**
+ * Format a planned action for display
+ */
+function formatAction({ action, path, newContent }: UpgradeFilePlan): string {
+  switch (action) {
+    case "create":
+      return formatFileOp("create", path);
+    case "update":
+    case "merge":
+      return `  ${style.yellow(action === "update" ? "Updating:" : "Merging:")} ${path}`;
+    case "conflict":
+      return `  ${style.red("Conflict:")} ${path}`;
+    case "remove":
+      return `  ${style.red("Removing:")} ${path}`;
+    case "keep":
+      return `  ${style.gray("Keeping:")} ${path} ${style.dim(
+        newContent === undefined
+          ? "(removed from configuration, edited locally)"
+          : "(project's own file, kept on apply)"
+      )}`;
+    case "skip":
+      return formatFileOp("skip", path);
+    case "unchanged":
+      return `  ${style.dim("Unchanged:")} ${path}`;
+  }
+}
+
+/**
+ * Plan representation for JSON output
+ */
+function formatPlanJson(plan: UpgradePlan): Record<string, unknown> {
+  return {
+    configId: plan.configId,
+    fromVersion: plan.fromVersion,
+    toVersion: plan.toVersion,
+    hasConflicts: plan.hasConflicts,
+    hasChanges: plan.hasChanges,
+    files: plan.files.map((f) => ({
+      path: f.path,
+      action: f.action,
+      diffSummary: f.diffSummary,
+      warnings: f.warnings,
+    })),
+  };
+}
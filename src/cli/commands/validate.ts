@@ -10,6 +10,9 @@ import {
   validateFilesExist,
   validateInheritanceChain,
 } from "../../lib/config/validator.js";
+import { getParentIds, getParentRefs, resolveInheritance } from "../../lib/config/resolver.js";
+import { satisfies } from "../../lib/config/semver.js";
+import { InheritanceOrderError } from "../../lib/errors.js";
 import { getGlobalOptions, handleError } from "../index.js";
 import { style, blankLine } from "../utils/output.js";
 
@@ -55,8 +58,8 @@ async function runValidateCommand(
   const allErrors: string[] = [];
   const allWarnings: string[] = [];
 
-  // 1. Validate metadata
-  const metaResult = validateConfiguration(config);
+  // 1. Validate metadata (including what it inherits from its parents)
+  const metaResult = validateConfiguration(await library.withInheritedMetadata(config));
   if (metaResult.valid) {
     console.log(`  ${style.green("✓")} Metadata valid`);
   } else {
@@ -66,7 +69,10 @@ async function runValidateCommand(
   allWarnings.push(...metaResult.warnings);
 
   // 2. Validate files exist
-  const filesResult = await validateFilesExist(configPath, config.files);
+  const filesResult = await validateFilesExist(
+    configPath,
+    config.files.filter((path) => !config.fileOptions?.[path]?.exclude)
+  );
   if (filesResult.valid) {
     console.log(`  ${style.green("✓")} Files exist`);
   } else {
@@ -74,9 +80,45 @@ async function runValidateCommand(
     allErrors.push(...filesResult.errors);
   }
 
-  // 3. Validate inheritance chain
-  const inheritanceResult = validateInheritanceChain(configId, () => config.extends);
-  if (inheritanceResult.valid) {
+  // 3. Validate inheritance chain, following every parent
+  const parentIds = new Map<string, string[]>();
+  const parentConfigs = new Map([[config.id, config]]);
+  const parentErrors: string[] = [];
+  const pending = [config];
+  while (pending.length > 0) {
+    const current = pending.shift()!;
+    if (parentIds.has(current.id)) {
+      continue;
+    }
+    parentIds.set(current.id, getParentIds(current));
+    for (const { id, range } of getParentRefs(current)) {
+      try {
+        const parent = await library.getConfigurationInRange(id, range);
+        if (range && !satisfies(parent.version, range)) {
+          parentErrors.push(
+            `${current.id} requires ${id}@${range}, but no library version satisfies it (current: ${parent.version})`
+          );
+        }
+        parentConfigs.set(id, parent);
+        pending.push(parent);
+      } catch {
+        parentErrors.push(`Parent configuration not found: ${id}`);
+      }
+    }
+  }
+  const inheritanceResult = validateInheritanceChain(configId, (id) => parentIds.get(id) ?? []);
+  inheritanceResult.errors.push(...parentErrors);
+  if (inheritanceResult.errors.length === 0) {
+    // Parents must also have a consistent linearization
+    try {
+      await resolveInheritance(config, async (id) => parentConfigs.get(id));
+    } catch (error) {
+      if (error instanceof InheritanceOrderError) {
+        inheritanceResult.errors.push(error.message);
+      }
+    }
+  }
+  if (inheritanceResult.errors.length === 0) {
     console.log(`  ${style.green("✓")} Inheritance chain valid`);
   } else {
     console.log(`  ${style.red("✗")} Inheritance issues`);
@@ -23,6 +23,13 @@ import { createRemoveCommand } from "./commands/remove.js";
 import { createValidateCommand } from "./commands/validate.js";
 import { createInstallSkillCommand } from "./commands/install-skill.js";
 import { createImportCommand } from "./commands/import.js";
+import { createStatusCommand } from "./commands/status.js";
+import { createUpgradeCommand } from "./commands/upgrade.js";
+import { createUndoCommand } from "./commands/undo.js";
+import { createUnapplyCommand } from "./commands/unapply.js";
+import { createGraphCommand } from "./commands/graph.js";
+import { createRenameCommand } from "./commands/rename.js";
+import { createCloneCommand } from "./commands/clone.js";
 
 // Get package.json for version
 const __filename = fileURLToPath(import.meta.url);
@@ -121,9 +128,16 @@ program.addCommand(createCreateCommand());
 program.addCommand(createSearchCommand());
 program.addCommand(createUpdateCommand());
 program.addCommand(createRemoveCommand());
+program.addCommand(createRenameCommand());
+program.addCommand(createCloneCommand());
 program.addCommand(createValidateCommand());
 program.addCommand(createInstallSkillCommand());
 program.addCommand(createImportCommand());
+program.addCommand(createStatusCommand());
+program.addCommand(createUpgradeCommand());
+program.addCommand(createUndoCommand());
+program.addCommand(createUnapplyCommand());
+program.addCommand(createGraphCommand());
 
 program.addHelpText(
   "after",
@@ -132,7 +146,10 @@ Examples:
   ${CLI_NAME} list                     List available configurations
   ${CLI_NAME} show typescript-react    Show configuration details
   ${CLI_NAME} apply typescript-react   Apply configuration to current directory
+  ${CLI_NAME} status                   Check the current directory for drift
+  ${CLI_NAME} upgrade                  Upgrade the current directory's configuration
   ${CLI_NAME} search react             Search for configurations
+  ${CLI_NAME} graph                    Show the library's inheritance tree
   ${CLI_NAME} create my-config         Create a new configuration
   ${CLI_NAME} import ./CLAUDE.md       Import an existing prompt file
   ${CLI_NAME} install-skill            Install Claude Code skill
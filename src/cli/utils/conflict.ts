@@ -2,11 +2,20 @@
  * Conflict resolution UI for CLI
  */
 
-import type { ConflictInfo } from "../../lib/config/types.js";
+import type { ConflictInfo, MergeResult } from "../../lib/config/types.js";
 import { generateDiff, formatDiffForDisplay } from "../../lib/apply/differ.js";
-import { mergeContent } from "../../lib/apply/merger.js";
-import { style, blankLine } from "./output.js";
+import {
+  mergeContent,
+  mergeThreeWay,
+  createConflictResult,
+  hasConflictMarkers,
+  countConflictMarkers,
+} from "../../lib/apply/merger.js";
+import { splitConflict, type HunkChoice } from "../../lib/apply/hunks.js";
+import { style, blankLine, printWarnings } from "./output.js";
 import { select, type Choice } from "./prompts.js";
+import { editContent, getEditor } from "./editor.js";
+import { EditorFailedError } from "../../lib/errors.js";
 
 /**
  * Conflict resolution choice
@@ -42,7 +51,7 @@ export async function resolveConflict(conflict: ConflictInfo): Promise<ResolvedC
   blankLine();
 
   // Prompt for resolution
-  const choices: Choice<ConflictResolution>[] = [
+  const choices: Choice<ConflictResolution | "granular" | "edit">[] = [
     {
       label: "Keep existing",
       value: "keep",
@@ -58,6 +67,16 @@ export async function resolveConflict(conflict: ConflictInfo): Promise<ResolvedC
       value: "merge",
       key: "m",
     },
+    {
+      label: "Choose per section/key/hunk",
+      value: "granular",
+      key: "g",
+    },
+    {
+      label: `Edit in ${getEditor()}`,
+      value: "edit",
+      key: "e",
+    },
     {
       label: "Skip this file",
       value: "skip",
@@ -65,12 +84,16 @@ export async function resolveConflict(conflict: ConflictInfo): Promise<ResolvedC
     },
   ];
 
-  const resolution = await select("How do you want to resolve this conflict?", choices);
+  const choice = await select("How do you want to resolve this conflict?", choices);
+
+  // Choices assembled part by part or edited by hand are a manual merge
+  let resolution: ConflictResolution =
+    choice === "granular" || choice === "edit" ? "merge" : choice;
 
   // Determine final content
   let content: string;
 
-  switch (resolution) {
+  switch (choice) {
     case "keep":
       content = conflict.existingContent;
       break;
@@ -78,11 +101,7 @@ export async function resolveConflict(conflict: ConflictInfo): Promise<ResolvedC
       content = conflict.newContent;
       break;
     case "merge": {
-      const mergeResult = mergeContent(
-        conflict.existingContent,
-        conflict.newContent,
-        conflict.path
-      );
+      const mergeResult = mergeConflict(conflict);
       content = mergeResult.content;
 
       if (mergeResult.hasConflicts) {
@@ -94,6 +113,20 @@ export async function resolveConflict(conflict: ConflictInfo): Promise<ResolvedC
       } else {
         console.log(style.success("Merge completed successfully."));
       }
+      printWarnings(mergeResult.warnings);
+      break;
+    }
+    case "granular":
+      content = await resolveHunks(conflict);
+      break;
+    case "edit": {
+      const edited = await resolveInEditor(conflict);
+      if (edited === undefined) {
+        resolution = "skip";
+        content = conflict.existingContent;
+      } else {
+        content = edited;
+      }
       break;
     }
     case "skip":
@@ -109,6 +142,116 @@ export async function resolveConflict(conflict: ConflictInfo): Promise<ResolvedC
   };
 }
 
+/**
+ * Merge a conflict automatically (three-way when the applied content is known)
+ */
+function mergeConflict(conflict: ConflictInfo): MergeResult {
+  return conflict.baseContent !== undefined
+    ? mergeThreeWay(
+        conflict.baseContent,
+        conflict.existingContent,
+        conflict.newContent,
+        conflict.path,
+        conflict.merge
+      )
+    : mergeContent(conflict.existingContent, conflict.newContent, conflict.path, conflict.merge);
+}
+
+/**
+ * Edit the merged content in $VISUAL/$EDITOR until no conflict markers remain
+ *
+ * Returns undefined if the user aborts or the editor fails, leaving the file's
+ * conflict in place without ending the rest of the session.
+ */
+export async function resolveInEditor(conflict: ConflictInfo): Promise<string | undefined> {
+  const mergeResult = mergeConflict(conflict);
+
+  // Merges that report conflicts without markers get whole-file markers to edit
+  let content =
+    mergeResult.hasConflicts && !hasConflictMarkers(mergeResult.content)
+      ? createConflictResult(conflict.existingContent, conflict.newContent).content
+      : mergeResult.content;
+
+  for (;;) {
+    try {
+      content = await editContent(content, conflict.path);
+    } catch (error) {
+      if (!(error instanceof EditorFailedError)) {
+        throw error;
+      }
+      console.log(style.warning(`${error.userMessage} Leaving ${conflict.path} as it is.`));
+      return undefined;
+    }
+
+    if (!hasConflictMarkers(content)) {
+      console.log(style.success("Conflict resolved in editor."));
+      return content;
+    }
+
+    console.log(
+      style.warning(
+        `${countConflictMarkers(content)} conflict marker(s) remain in ${conflict.path}.`
+      )
+    );
+    const next = await select("What do you want to do?", [
+      { label: "Edit again", value: "edit", key: "e" },
+      { label: "Abort (leave the file as it is)", value: "abort", key: "a" },
+    ]);
+    if (next === "abort") {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Walk the differing parts of a conflict, choosing ours, theirs or both for each
+ */
+export async function resolveHunks(conflict: ConflictInfo): Promise<string> {
+  const { hunks, assemble } = splitConflict(
+    conflict.existingContent,
+    conflict.newContent,
+    conflict.path
+  );
+  const picks: HunkChoice[] = [];
+
+  for (let i = 0; i < hunks.length; i++) {
+    const hunk = hunks[i];
+
+    blankLine();
+    console.log(style.bold(`${hunk.label} (${i + 1} of ${hunks.length})`));
+    console.log(formatHunkSide(hunk.ours, "-"));
+    console.log(formatHunkSide(hunk.theirs, "+"));
+    blankLine();
+
+    const options: Choice<HunkChoice>[] = [
+      { label: "Ours (keep existing)", value: "ours", key: "o" },
+      { label: "Theirs (use new)", value: "theirs", key: "t" },
+    ];
+    if (hunk.combinable) {
+      options.push({ label: "Both (existing, then new)", value: "both", key: "b" });
+    }
+
+    picks.push(await select("Which version do you want?", options));
+  }
+
+  console.log(style.success(`Resolved ${hunks.length} part(s).`));
+  return assemble(picks);
+}
+
+/**
+ * Format one side of a hunk as diff lines
+ */
+function formatHunkSide(content: string, prefix: "-" | "+"): string {
+  const color = prefix === "-" ? style.red : style.green;
+  if (content === "") {
+    return style.dim(`${prefix} (nothing)`);
+  }
+  return content
+    .split("\n")
+    .map((line) => color(`${prefix} ${line}`))
+    .join("\n");
+}
+
 /**
  * Resolve multiple conflicts interactively
  */
@@ -0,0 +1,58 @@
+/**
+ * External editor support for CLI
+ */
+
+import { spawn } from "child_process";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { basename, join } from "path";
+import { EditorFailedError } from "../../lib/errors.js";
+
+/**
+ * Editor command from $VISUAL or $EDITOR (vi if neither is set)
+ */
+export function getEditor(): string {
+  return process.env.VISUAL || process.env.EDITOR || "vi";
+}
+
+/**
+ * Open content in the user's editor and return what was saved
+ *
+ * The temporary file keeps the original file name so editors pick the right
+ * syntax highlighting.
+ */
+export async function editContent(content: string, filePath: string): Promise<string> {
+  const editor = getEditor();
+  const tempDir = await mkdtemp(join(tmpdir(), "cpm-edit-"));
+  const tempFile = join(tempDir, basename(filePath));
+
+  try {
+    await writeFile(tempFile, content, "utf-8");
+    await runEditor(editor, tempFile);
+    return await readFile(tempFile, "utf-8");
+  } finally {
+    await rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Run the editor on a file and wait for it to exit
+ *
+ * Runs through the shell so editor commands with arguments (e.g. "code --wait") work.
+ * The file is passed as a positional parameter, never as part of the command
+ * string, so its name cannot run shell commands.
+ */
+function runEditor(editor: string, file: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn("sh", ["-c", `${editor} "$1"`, "sh", file], { stdio: "inherit" });
+
+    child.on("error", (error) => reject(new EditorFailedError(editor, error.message)));
+    child.on("exit", (code, signal) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new EditorFailedError(editor, signal ? `killed by ${signal}` : `exit code ${code}`));
+      }
+    });
+  });
+}
@@ -2,8 +2,9 @@
  * CLI output utilities for formatting and display
  */
 
-import type { Configuration } from "../../lib/config/types.js";
+import type { ApplyResult, Configuration } from "../../lib/config/types.js";
 import { ENV_VARS } from "../../lib/constants.js";
+import { getParentIds } from "../../lib/config/resolver.js";
 
 /**
  * Check if colors should be disabled
@@ -80,8 +81,9 @@ export function formatConfigDetails(config: Configuration): string {
     `  ${style.dim("Version:")}      ${config.version}`,
   ];
 
-  if (config.extends) {
-    lines.push(`  ${style.dim("Extends:")}      ${config.extends}`);
+  const parentIds = getParentIds(config);
+  if (parentIds.length > 0) {
+    lines.push(`  ${style.dim("Extends:")}      ${parentIds.join(", ")}`);
   }
 
   lines.push(
@@ -97,6 +99,10 @@ export function formatConfigDetails(config: Configuration): string {
     lines.push(`  ${style.dim("Testing:")}      ${config.testingApproach}`);
   }
 
+  if (config.forkedFrom) {
+    lines.push(`  ${style.dim("Forked from:")}  ${config.forkedFrom}`);
+  }
+
   lines.push(
     "",
     `  ${style.dim("Files")} (${config.files.length}):`,
@@ -175,6 +181,35 @@ export function printNextSteps(steps: string[]): void {
   });
 }
 
+/**
+ * Print the files restored after a failed write was rolled back
+ */
+export function printRollback(result: Pick<ApplyResult, "rolledBack" | "filesRestored">): void {
+  if (!result.rolledBack) {
+    return;
+  }
+
+  blankLine();
+  console.log(style.info("Changes were rolled back. Restored:"));
+  for (const file of result.filesRestored ?? []) {
+    console.log(style.dim(`  - ${file}`));
+  }
+}
+
+/**
+ * Print problems resolved automatically while merging
+ */
+export function printWarnings(warnings: string[] = []): void {
+  if (warnings.length === 0) {
+    return;
+  }
+
+  blankLine();
+  for (const warning of warnings) {
+    console.log(style.warning(warning));
+  }
+}
+
 /**
  * Format search result with highlighted matches
  */
@@ -0,0 +1,296 @@
+/**
+ * Apply backups - keep what a project looked like before cpm changed it
+ *
+ * Before files are written, their current content (or the fact that they did not
+ * exist) is stored in `.claude/cpm/backups/<id>.json` together with the lockfile
+ * and the merge bases it refers to, so an apply or upgrade can be undone later.
+ */
+
+import { readFile, readdir, rm } from "fs/promises";
+import { join } from "path";
+import type { ConfigurationFile } from "../config/types.js";
+import { CLAUDE_DIR, CPM_STATE_DIRNAME } from "../constants.js";
+import { writeFilesToProject } from "../config/writer.js";
+import { resolveSafePath } from "../config/path-safety.js";
+import { BackupNotFoundError } from "../errors.js";
+import { readProjectFile } from "./detector.js";
+import { LOCKFILE_PATH, getBaseContentPaths, readLockfile } from "./lockfile.js";
+
+/**
+ * Project-relative directory holding backups
+ */
+export const BACKUPS_PATH = join(CLAUDE_DIR, CPM_STATE_DIRNAME, "backups");
+
+/**
+ * Number of backups kept per project
+ */
+export const MAX_BACKUPS = 10;
+
+/**
+ * A file as it was before an apply
+ */
+export interface BackupFile {
+  /** File path relative to project */
+  path: string;
+  /** Previous content (null if the file did not exist) */
+  content: string | null;
+}
+
+/**
+ * Snapshot of the files an apply was about to change
+ */
+export interface Backup {
+  /** Backup ID (sortable timestamp) */
+  id: string;
+  /** When the backup was taken */
+  createdAt: string;
+  /** Configuration being applied */
+  configId: string;
+  /** Version being applied */
+  version: string;
+  /** Previous state of each file */
+  files: BackupFile[];
+}
+
+/**
+ * Result of restoring backups
+ */
+export interface RestoreResult {
+  /** Backups undone, newest first */
+  backups: Backup[];
+  /** Files written back with their previous content */
+  restored: string[];
+  /** Files removed because they did not exist before */
+  removed: string[];
+  /** Error messages */
+  errors: string[];
+}
+
+/**
+ * Back up the given project files (and the lockfile) before they are changed
+ *
+ * The merge bases the lockfile refers to are included, since writing the next
+ * lockfile prunes the ones it no longer needs.
+ */
+export async function createBackup(
+  targetPath: string,
+  info: { configId: string; version: string },
+  paths: string[]
+): Promise<Backup> {
+  const createdAt = new Date();
+  const backup: Backup = {
+    id: createdAt.toISOString().replace(/[:.]/g, "-"),
+    createdAt: createdAt.toISOString(),
+    configId: info.configId,
+    version: info.version,
+    files: [],
+  };
+
+  const lock = await readLockfile(targetPath).catch(() => undefined);
+  const basePaths = lock ? getBaseContentPaths(lock) : [];
+  await addFiles(targetPath, backup, [LOCKFILE_PATH, ...basePaths, ...paths]);
+  await writeBackup(targetPath, backup);
+  await pruneBackups(targetPath);
+
+  return backup;
+}
+
+/**
+ * Add files to an existing backup (e.g. when conflicts are resolved after the first write)
+ *
+ * Files already in the backup keep their earliest content.
+ */
+export async function extendBackup(
+  targetPath: string,
+  backupId: string,
+  paths: string[]
+): Promise<Backup> {
+  const backup = await readBackup(targetPath, backupId);
+  await addFiles(targetPath, backup, paths);
+  await writeBackup(targetPath, backup);
+  return backup;
+}
+
+/**
+ * Delete a backup (e.g. when the write it guarded was rolled back)
+ */
+export async function discardBackup(targetPath: string, backupId: string): Promise<void> {
+  await rm(backupFile(targetPath, backupId), { force: true });
+}
+
+/**
+ * List a project's backups, newest first
+ */
+export async function listBackups(targetPath: string): Promise<Backup[]> {
+  const backups: Backup[] = [];
+
+  for (const id of await listBackupIds(targetPath)) {
+    try {
+      backups.push(await readBackup(targetPath, id));
+    } catch {
+      // Skip unreadable backups
+    }
+  }
+
+  return backups;
+}
+
+/**
+ * Restore a project to its state before a backup was taken
+ *
+ * Backups newer than the chosen one are undone first, so every file touched since
+ * then goes back to how it was. Restored backups are deleted. Without an ID the
+ * most recent backup is restored.
+ */
+export async function restoreBackup(targetPath: string, backupId?: string): Promise<RestoreResult> {
+  const backups = await listBackups(targetPath);
+  if (backups.length === 0) {
+    throw new BackupNotFoundError(targetPath);
+  }
+
+  const index = backupId ? backups.findIndex((b) => b.id === backupId) : 0;
+  if (index === -1) {
+    throw new BackupNotFoundError(targetPath, backupId);
+  }
+
+  // Oldest content wins for files touched by several applies
+  const previous = new Map<string, string | null>();
+  for (const backup of backups.slice(0, index + 1)) {
+    for (const file of backup.files) {
+      previous.set(file.path, file.content);
+    }
+  }
+
+  const result: RestoreResult = {
+    backups: backups.slice(0, index + 1),
+    restored: [],
+    removed: [],
+    errors: [],
+  };
+
+  const filesToWrite: ConfigurationFile[] = [];
+  const filesToRemove: string[] = [];
+  for (const [path, content] of previous) {
+    if (content === null) {
+      filesToRemove.push(path);
+    } else {
+      filesToWrite.push({ path, content, type: "text" });
+    }
+  }
+
+  const writeResult = await writeFilesToProject(filesToWrite, targetPath);
+  if (writeResult.errors.length > 0) {
+    result.errors.push(...writeResult.errors);
+    return result;
+  }
+  result.restored.push(...writeResult.created);
+
+  for (const path of filesToRemove) {
+    try {
+      if ((await readProjectFile(targetPath, path)) !== undefined) {
+        await rm(resolveSafePath(targetPath, path), { force: true });
+        result.removed.push(path);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result.errors.push(`Failed to remove ${path}: ${message}`);
+    }
+  }
+
+  // Keep the backups around if anything could not be restored
+  if (result.errors.length === 0) {
+    for (const backup of result.backups) {
+      await rm(backupFile(targetPath, backup.id), { force: true });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Record the current content of files not yet in a backup
+ */
+async function addFiles(targetPath: string, backup: Backup, paths: string[]): Promise<void> {
+  const known = new Set(backup.files.map((f) => f.path));
+
+  for (const path of paths) {
+    if (known.has(path)) {
+      continue;
+    }
+    known.add(path);
+    backup.files.push({ path, content: (await readProjectFile(targetPath, path)) ?? null });
+  }
+}
+
+/**
+ * Read a backup by ID
+ */
+async function readBackup(targetPath: string, backupId: string): Promise<Backup> {
+  let rawContent: string;
+
+  try {
+    rawContent = await readFile(backupFile(targetPath, backupId), "utf-8");
+  } catch {
+    throw new BackupNotFoundError(targetPath, backupId);
+  }
+
+  try {
+    return JSON.parse(rawContent) as Backup;
+  } catch {
+    throw new Error(`Invalid JSON in backup "${backupId}"`);
+  }
+}
+
+/**
+ * Write a backup into the project
+ */
+async function writeBackup(targetPath: string, backup: Backup): Promise<void> {
+  const writeResult = await writeFilesToProject(
+    [
+      {
+        path: join(BACKUPS_PATH, `${backup.id}.json`),
+        content: JSON.stringify(backup, null, 2) + "\n",
+        type: "json",
+      },
+    ],
+    targetPath
+  );
+
+  if (writeResult.errors.length > 0) {
+    throw new Error(writeResult.errors.join("; "));
+  }
+}
+
+/**
+ * Remove all but the most recent backups
+ */
+async function pruneBackups(targetPath: string): Promise<void> {
+  const ids = await listBackupIds(targetPath);
+
+  for (const id of ids.slice(MAX_BACKUPS)) {
+    await rm(backupFile(targetPath, id), { force: true });
+  }
+}
+
+/**
+ * Backup IDs in a project, newest first
+ */
+async function listBackupIds(targetPath: string): Promise<string[]> {
+  try {
+    const entries = await readdir(resolveSafePath(targetPath, BACKUPS_PATH));
+    return entries
+      .filter((entry) => entry.endsWith(".json"))
+      .map((entry) => entry.slice(0, -".json".length))
+      .sort()
+      .reverse();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Absolute path of a backup file
+ */
+function backupFile(targetPath: string, backupId: string): string {
+  return resolveSafePath(targetPath, join(BACKUPS_PATH, `${backupId}.json`));
+}
@@ -6,6 +6,7 @@ import { stat, readFile } from "fs/promises";
 import { join } from "path";
 import { CLAUDE_MD_FILENAME, CLAUDE_DIR } from "../constants.js";
 import { resolveSafePath } from "../config/path-safety.js";
+import { findManagedRegions, isManagedFile } from "./managed-regions.js";
 
 /**
  * Detection result for a project
@@ -21,6 +22,8 @@ export interface DetectionResult {
   existingFiles: string[];
   /** Content of existing CLAUDE.md (if it exists) */
   claudeMdContent?: string;
+  /** Configurations with a managed region in CLAUDE.md */
+  managedRegions: string[];
 }
 
 /**
@@ -32,6 +35,7 @@ export async function detectExistingConfig(targetPath: string): Promise<Detectio
     hasClaudeMd: false,
     hasClaudeDir: false,
     existingFiles: [],
+    managedRegions: [],
   };
 
   // Check for CLAUDE.md
@@ -43,6 +47,7 @@ export async function detectExistingConfig(targetPath: string): Promise<Detectio
       result.hasConfiguration = true;
       result.existingFiles.push(CLAUDE_MD_FILENAME);
       result.claudeMdContent = await readFile(claudeMdPath, "utf-8");
+      result.managedRegions = findManagedRegions(result.claudeMdContent).map((r) => r.id);
     }
   } catch {
     // File doesn't exist
@@ -88,6 +93,23 @@ export async function fileExists(targetPath: string, relativePath: string): Prom
   }
 }
 
+/**
+ * Read a file from the target path (undefined if it does not exist)
+ */
+export async function readProjectFile(
+  targetPath: string,
+  relativePath: string
+): Promise<string | undefined> {
+  try {
+    return await readFile(resolveSafePath(targetPath, relativePath), "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
 /**
  * Check if a directory exists
  */
@@ -117,3 +139,26 @@ export async function getConflictingFiles(
 
   return conflicts;
 }
+
+/**
+ * Get files in target path that hold a managed region for a configuration
+ */
+export async function getManagedFiles(
+  targetPath: string,
+  configId: string,
+  files: string[]
+): Promise<string[]> {
+  const managed: string[] = [];
+
+  for (const file of files) {
+    if (!isManagedFile(file)) {
+      continue;
+    }
+    const content = await readProjectFile(targetPath, file);
+    if (content !== undefined && findManagedRegions(content).some((r) => r.id === configId)) {
+      managed.push(file);
+    }
+  }
+
+  return managed;
+}
@@ -0,0 +1,272 @@
+/**
+ * Conflict hunks - split a conflicting file into parts resolved one at a time
+ *
+ * Markdown is split by section, JSON by key path and other files by diff hunk.
+ * Parts present on only one side are kept; each part that differs becomes a
+ * hunk resolved as "ours" (project), "theirs" (configuration) or "both". A
+ * managed block is split by its content, keeping its markers out of the hunks.
+ */
+
+import { diffArrays } from "diff";
+import { getFileType } from "../constants.js";
+import { isPlainObject, isDeepEqual } from "../config/json-merge.js";
+import {
+  parseMarkdown,
+  renderMarkdown,
+  mergeMarkdownTrees,
+  sectionBody,
+  sectionName,
+  sameBody,
+  type MarkdownSection,
+} from "../config/markdown.js";
+import {
+  parseManagedBlock,
+  findManagedRegions,
+  replaceManagedRegion,
+  wrapManagedRegion,
+} from "./managed-regions.js";
+
+/**
+ * Choice for a single hunk
+ */
+export type HunkChoice = "ours" | "theirs" | "both";
+
+/**
+ * A differing part of a conflicting file
+ */
+export interface ConflictHunk {
+  /** Where the hunk is (section heading, key path or line) */
+  label: string;
+  /** Project side */
+  ours: string;
+  /** Configuration side */
+  theirs: string;
+  /** Whether both sides can be kept together */
+  combinable: boolean;
+}
+
+/**
+ * A conflicting file split into hunks
+ */
+export interface SplitConflict {
+  hunks: ConflictHunk[];
+  /** Build the final content from one choice per hunk, in hunk order */
+  assemble: (choices: HunkChoice[]) => string;
+}
+
+/**
+ * Split a conflict between project and configuration content into hunks
+ */
+export function splitConflict(existing: string, incoming: string, filePath: string): SplitConflict {
+  switch (getFileType(filePath)) {
+    case "markdown":
+      return parseManagedBlock(incoming)
+        ? splitManagedBlock(existing, incoming)
+        : splitMarkdown(existing, incoming);
+    case "json":
+      try {
+        return splitJson(JSON.parse(existing), JSON.parse(incoming));
+      } catch {
+        return splitLines(existing, incoming);
+      }
+    default:
+      return splitLines(existing, incoming);
+  }
+}
+
+/**
+ * Split the content of a managed block against the project's region
+ *
+ * The assembled content is wrapped in the markers again and put in place of the
+ * region; without a region in the project it becomes the whole file.
+ */
+function splitManagedBlock(existing: string, incoming: string): SplitConflict {
+  const block = parseManagedBlock(incoming)!;
+  const region = findManagedRegions(existing).find((r) => r.id === block.id);
+  const { hunks, assemble } = splitMarkdown(region ? region.content : existing, block.content);
+
+  return {
+    hunks,
+    assemble: (choices) => {
+      const wrapped = wrapManagedRegion(block.id, assemble(choices));
+      return region ? replaceManagedRegion(existing, wrapped).content : wrapped;
+    },
+  };
+}
+
+/**
+ * One hunk per matched section whose body differs
+ */
+function splitMarkdown(existing: string, incoming: string): SplitConflict {
+  const ours = parseMarkdown(existing);
+  const theirs = parseMarkdown(incoming);
+  const differs = (o: MarkdownSection, t: MarkdownSection): boolean =>
+    !sameBody(sectionBody(o), sectionBody(t));
+
+  const hunks: ConflictHunk[] = [];
+  mergeMarkdownTrees(ours, theirs, (o, t) => {
+    if (differs(o, t)) {
+      hunks.push({
+        label: sectionName(o),
+        ours: sectionBody(o).trim(),
+        theirs: sectionBody(t).trim(),
+        combinable: true,
+      });
+    }
+    return o.body;
+  });
+
+  const assemble = (choices: HunkChoice[]): string => {
+    let index = 0;
+    const merged = mergeMarkdownTrees(ours, theirs, (o, t) =>
+      differs(o, t) ? pickBody(o.body, t.body, choices[index++]) : o.body
+    );
+    return renderMarkdown(merged).trim();
+  };
+
+  return { hunks, assemble };
+}
+
+/**
+ * One hunk per key path whose values differ (objects are walked key by key)
+ */
+function splitJson(ours: unknown, theirs: unknown): SplitConflict {
+  const hunks: ConflictHunk[] = [];
+  combineJson(ours, theirs, "", (label, o, t) => {
+    hunks.push({
+      label,
+      ours: JSON.stringify(o, null, 2),
+      theirs: JSON.stringify(t, null, 2),
+      combinable: Array.isArray(o) && Array.isArray(t),
+    });
+    return o;
+  });
+
+  const assemble = (choices: HunkChoice[]): string => {
+    let index = 0;
+    const combined = combineJson(ours, theirs, "", (_label, o, t) => {
+      switch (choices[index++]) {
+        case "theirs":
+          return t;
+        case "both":
+          return Array.isArray(o) && Array.isArray(t)
+            ? [...o, ...t.filter((item) => !o.some((existing) => isDeepEqual(existing, item)))]
+            : o;
+        default:
+          return o;
+      }
+    });
+    return JSON.stringify(combined, null, 2);
+  };
+
+  return { hunks, assemble };
+}
+
+/**
+ * One hunk per run of changed lines
+ */
+function splitLines(existing: string, incoming: string): SplitConflict {
+  const parts: Array<string[] | { ours: string[]; theirs: string[] }> = [];
+  const hunks: ConflictHunk[] = [];
+  let line = 1;
+
+  for (const change of diffArrays(existing.split("\n"), incoming.split("\n"))) {
+    if (!change.added && !change.removed) {
+      parts.push(change.value);
+      line += change.value.length;
+      continue;
+    }
+
+    let hunk = parts[parts.length - 1];
+    if (!hunk || Array.isArray(hunk)) {
+      hunk = { ours: [], theirs: [] };
+      parts.push(hunk);
+      hunks.push({ label: `Line ${line}`, ours: "", theirs: "", combinable: true });
+    }
+
+    if (change.removed) {
+      hunk.ours.push(...change.value);
+      line += change.value.length;
+    } else {
+      hunk.theirs.push(...change.value);
+    }
+
+    hunks[hunks.length - 1].ours = hunk.ours.join("\n");
+    hunks[hunks.length - 1].theirs = hunk.theirs.join("\n");
+  }
+
+  const assemble = (choices: HunkChoice[]): string => {
+    let index = 0;
+    return parts
+      .flatMap((part) =>
+        Array.isArray(part) ? part : pickLines(part.ours, part.theirs, choices[index++])
+      )
+      .join("\n");
+  };
+
+  return { hunks, assemble };
+}
+
+/**
+ * Walk two JSON values, keeping one-sided keys and resolving differing leaves
+ */
+function combineJson(
+  ours: unknown,
+  theirs: unknown,
+  keyPath: string,
+  resolve: (label: string, ours: unknown, theirs: unknown) => unknown
+): unknown {
+  if (isDeepEqual(ours, theirs) || theirs === undefined) {
+    return ours;
+  }
+  if (ours === undefined) {
+    return theirs;
+  }
+
+  if (isPlainObject(ours) && isPlainObject(theirs)) {
+    const result: Record<string, unknown> = { ...ours };
+    for (const key of Object.keys(theirs)) {
+      result[key] = combineJson(
+        ours[key],
+        theirs[key],
+        keyPath ? `${keyPath}.${key}` : key,
+        resolve
+      );
+    }
+    return result;
+  }
+
+  return resolve(keyPath || "(root)", ours, theirs);
+}
+
+/**
+ * Lines for a choice; "both" keeps ours followed by theirs
+ */
+function pickLines(ours: string[], theirs: string[], choice: HunkChoice | undefined): string[] {
+  switch (choice) {
+    case "theirs":
+      return theirs;
+    case "both":
+      return [...ours, ...theirs];
+    default:
+      return ours;
+  }
+}
+
+/**
+ * Section body for a choice; "both" separates the two bodies with a blank line
+ */
+function pickBody(ours: string[], theirs: string[], choice: HunkChoice | undefined): string[] {
+  if (choice !== "both") {
+    return pickLines(ours, theirs, choice);
+  }
+
+  const kept = [...ours];
+  while (kept.length > 0 && kept[kept.length - 1].trim() === "") {
+    kept.pop();
+  }
+  const start = theirs.findIndex((line) => line.trim() !== "");
+  const added = start === -1 ? [] : theirs.slice(start);
+
+  return kept.length > 0 && added.length > 0 ? [...kept, "", ...added] : [...kept, ...added];
+}
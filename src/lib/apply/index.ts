@@ -3,28 +3,51 @@
  */
 
 import { readFile } from "fs/promises";
-import { join } from "path";
 import type {
   Configuration,
   ResolvedConfiguration,
   ApplyOptions,
   ApplyResult,
+  ApplyLock,
   ConfigurationFile,
+  ConflictInfo,
 } from "../config/types.js";
-import { resolveInheritance } from "../config/resolver.js";
-import { writeFilesToProject, ensureDirectory } from "../config/writer.js";
-import { getConflictingFiles } from "./detector.js";
-import { mergeContent } from "./merger.js";
+import { resolveLayers, type ParentLoader } from "../config/resolver.js";
+import { writeFilesToProject, ensureDirectory, type ProjectWriteResult } from "../config/writer.js";
+import { getConflictingFiles, getManagedFiles } from "./detector.js";
+import { mergeContent, mergeThreeWay } from "./merger.js";
+import {
+  createLock,
+  recordFile,
+  recordKeptFile,
+  hashContent,
+  readLockfile,
+  writeLockfile,
+  readBaseContent,
+  writeBaseContent,
+  LOCKFILE_PATH,
+  OBJECTS_PATH,
+} from "./lockfile.js";
+import { createBackup, extendBackup, discardBackup, restoreBackup } from "./backup.js";
+import {
+  withManagedRegions,
+  findIgnoredDirectives,
+  IGNORED_DIRECTIVES_WARNING,
+} from "./managed-regions.js";
+import { getConflictStrategy } from "./strategy.js";
+import { stripMarkdownDirectives } from "../config/markdown-directives.js";
 import { ConflictDetectedError } from "../errors.js";
 import { resolveSafePath } from "../config/path-safety.js";
 
 /**
  * Apply a configuration to a target project
+ *
+ * Several configurations are composed as layers and applied in one pass.
  */
 export async function applyConfiguration(
-  config: Configuration,
+  config: Configuration | Configuration[],
   options: ApplyOptions,
-  getConfig: (id: string) => Promise<Configuration | undefined>
+  getConfig: ParentLoader
 ): Promise<ApplyResult> {
   const result: ApplyResult = {
     success: false,
@@ -36,55 +59,65 @@ export async function applyConfiguration(
   };
 
   try {
-    // Resolve inheritance to get all files
+    // Resolve inheritance (and layers) to get all files
     let resolvedConfig: ResolvedConfiguration;
     try {
-      resolvedConfig = await resolveInheritance(config, getConfig);
+      const layers = Array.isArray(config) ? config : [config];
+      const resolved = await resolveLayers(layers, getConfig);
+      for (const path of findIgnoredDirectives(resolved)) {
+        recordWarnings(result, path, [IGNORED_DIRECTIVES_WARNING]);
+      }
+      resolvedConfig = withManagedRegions(resolved);
     } catch (error) {
       result.errors.push(error instanceof Error ? error.message : String(error));
       return result;
     }
 
     const filesToApply = resolvedConfig.resolvedFiles;
+    const lock = createLock(resolvedConfig);
+
+    // Content applied last time serves as the base for three-way merges
+    const previousLock = await readLockfile(options.targetPath).catch(() => undefined);
+    const getBaseContent = async (path: string): Promise<string | undefined> => {
+      const entry = previousLock?.files[path];
+      return entry ? readBaseContent(options.targetPath, entry.sourceHash) : undefined;
+    };
 
     // Ensure target directory exists
     await ensureDirectory(options.targetPath);
 
-    // Get list of conflicting files
-    const conflictingFiles = await getConflictingFiles(
+    // Get list of existing files; those holding this configuration's managed
+    // block are updated in place rather than treated as conflicts
+    const existingFiles = await getConflictingFiles(
       options.targetPath,
       filesToApply.map((f) => f.path)
     );
+    const managedFiles = await getManagedFiles(
+      options.targetPath,
+      resolvedConfig.id,
+      existingFiles
+    );
+    const conflictingFiles = existingFiles.filter((path) => !managedFiles.includes(path));
 
-    // Handle based on mode
-    if (options.mode === "create" && conflictingFiles.length > 0) {
-      if (options.noInteractive) {
-        throw new ConflictDetectedError(conflictingFiles);
-      }
-
-      // Build conflict info for each conflicting file
-      for (const file of filesToApply) {
-        if (conflictingFiles.includes(file.path)) {
-          const existingPath = resolveSafePath(options.targetPath, file.path);
-          const existingContent = await readFile(existingPath, "utf-8");
-
-          result.conflicts.push({
-            path: file.path,
-            existingContent,
-            newContent: file.content,
-          });
-        }
-      }
-
-      // Return with conflicts for interactive resolution
-      return result;
+    // Without a strategy, create mode leaves conflicts to the user
+    const unresolvedFiles = conflictingFiles.filter(
+      (path) => getConflictStrategy(path, options) === undefined
+    );
+    if (options.mode === "create" && options.noInteractive && unresolvedFiles.length > 0) {
+      throw new ConflictDetectedError(unresolvedFiles);
     }
 
     // Handle dry run
     if (options.dryRun) {
       for (const file of filesToApply) {
-        if (conflictingFiles.includes(file.path)) {
-          if (options.mode === "replace") {
+        const strategy = getConflictStrategy(file.path, options);
+
+        if (managedFiles.includes(file.path)) {
+          result.filesModified.push(file.path);
+        } else if (conflictingFiles.includes(file.path)) {
+          if (strategy === "ours") {
+            result.filesSkipped.push(file.path);
+          } else if (strategy || options.mode === "replace") {
             result.filesModified.push(file.path);
           } else if (options.mode === "merge") {
             result.filesModified.push(file.path);
@@ -105,24 +138,53 @@ export async function applyConfiguration(
 
     // Apply files based on mode
     const filesToWrite: ConfigurationFile[] = [];
+    const sourceContents = new Map(filesToApply.map((f) => [f.path, f.content]));
 
     for (const file of filesToApply) {
-      const isConflict = conflictingFiles.includes(file.path);
+      const isConflict = existingFiles.includes(file.path);
+      const isManaged = managedFiles.includes(file.path);
+      const strategy =
+        isConflict && !isManaged ? getConflictStrategy(file.path, options) : undefined;
+      const readExisting = (): Promise<string> =>
+        readFile(resolveSafePath(options.targetPath, file.path), "utf-8");
 
       if (!isConflict) {
         // No conflict - just add to write list
-        filesToWrite.push(file);
+        filesToWrite.push(withoutDirectives(file));
         result.filesCreated.push(file.path);
-      } else if (options.mode === "replace") {
-        // Replace mode - overwrite existing
-        filesToWrite.push(file);
+      } else if (strategy === "ours") {
+        // Strategy keeps the project's file
+        const existingContent = await readExisting();
+        result.filesSkipped.push(file.path);
+        result.conflicts.push({
+          path: file.path,
+          existingContent,
+          newContent: file.content,
+          resolution: "keep",
+        });
+        recordFile(lock, file.path, existingContent, file.content);
+        recordKeptFile(lock, file.path, previousLock);
+      } else if (strategy === "theirs" || (!strategy && options.mode === "replace" && !isManaged)) {
+        // Replace mode (or strategy) - overwrite existing
+        filesToWrite.push(withoutDirectives(file));
         result.filesModified.push(file.path);
-      } else if (options.mode === "merge") {
-        // Merge mode - attempt to merge content
-        const existingPath = resolveSafePath(options.targetPath, file.path);
-        const existingContent = await readFile(existingPath, "utf-8");
+        if (strategy) {
+          result.conflicts.push({
+            path: file.path,
+            existingContent: await readExisting(),
+            newContent: file.content,
+            resolution: "replace",
+          });
+        }
+      } else if (strategy === "merge" || options.mode === "merge" || isManaged) {
+        // Merge mode (managed block or strategy) - attempt to merge content
+        const existingContent = await readExisting();
 
-        const mergeResult = mergeContent(existingContent, file.content, file.path);
+        const baseContent = await getBaseContent(file.path);
+        const mergeResult =
+          baseContent !== undefined
+            ? mergeThreeWay(baseContent, existingContent, file.content, file.path, file.merge)
+            : mergeContent(existingContent, file.content, file.path, file.merge);
 
         if (mergeResult.hasConflicts) {
           // Merge created conflicts - add to conflicts list
@@ -130,8 +192,11 @@ export async function applyConfiguration(
             path: file.path,
             existingContent,
             newContent: file.content,
+            baseContent,
+            merge: file.merge,
             mergedContent: mergeResult.content,
           });
+          recordFile(lock, file.path, existingContent, file.content);
         } else {
           // Merge succeeded - write merged content
           filesToWrite.push({
@@ -139,20 +204,78 @@ export async function applyConfiguration(
             content: mergeResult.content,
           });
           result.filesModified.push(file.path);
+          recordWarnings(result, file.path, mergeResult.warnings);
+          if (strategy) {
+            result.conflicts.push({
+              path: file.path,
+              existingContent,
+              newContent: file.content,
+              baseContent,
+              resolution: "merge",
+              mergedContent: mergeResult.content,
+            });
+          }
         }
       } else {
-        // Create mode with conflict - skip (shouldn't reach here)
-        result.filesSkipped.push(file.path);
+        // Create mode with conflict - leave it for interactive resolution
+        const existingContent = await readExisting();
+        result.conflicts.push({
+          path: file.path,
+          existingContent,
+          newContent: file.content,
+          baseContent: await getBaseContent(file.path),
+          merge: file.merge,
+        });
+        recordFile(lock, file.path, existingContent, file.content);
       }
     }
 
+    // Merges that left conflicts fail before anything is written
+    const unresolvedMerges = getUnresolvedConflicts(result).map((c) => c.path);
+    if (options.noInteractive && unresolvedMerges.length > 0) {
+      throw new ConflictDetectedError(
+        unresolvedMerges,
+        `Merging left conflicts in ${unresolvedMerges.join(", ")}; no files were written. Resolve them interactively, or use \`--force\` or \`--strategy\`.`
+      );
+    }
+
     // Write all files
     if (filesToWrite.length > 0) {
+      const backup = await createBackup(
+        options.targetPath,
+        { configId: resolvedConfig.id, version: resolvedConfig.version },
+        filesToWrite.map((f) => f.path)
+      );
+      result.backupId = backup.id;
+
       const writeResult = await writeFilesToProject(filesToWrite, options.targetPath);
-      result.errors.push(...writeResult.errors);
+      if (writeResult.errors.length > 0) {
+        await discardBackup(options.targetPath, backup.id);
+        return recordRollback(result, writeResult);
+      }
+
+      for (const file of filesToWrite) {
+        if (writeResult.created.includes(file.path)) {
+          recordFile(lock, file.path, file.content, sourceContents.get(file.path) ?? file.content);
+        }
+      }
+    }
+
+    // Record what was applied (deferred until conflicts are resolved)
+    if (Object.keys(lock.files).length > 0) {
+      result.errors.push(
+        ...(await writeBaseContent(options.targetPath, [...sourceContents.values()]))
+      );
+    }
+
+    const unresolved = getUnresolvedConflicts(result);
+    if (unresolved.length > 0) {
+      result.lock = lock;
+    } else if (Object.keys(lock.files).length > 0) {
+      result.errors.push(...(await writeLockfile(options.targetPath, lock)));
     }
 
-    result.success = result.errors.length === 0 && result.conflicts.length === 0;
+    result.success = result.errors.length === 0 && unresolved.length === 0;
   } catch (error) {
     if (error instanceof ConflictDetectedError) {
       throw error;
@@ -165,6 +288,10 @@ export async function applyConfiguration(
 
 /**
  * Apply with resolved conflicts
+ *
+ * Files are added to the backup taken by applyConfiguration when its ID is given.
+ * Both passes then form one transaction: if the resolved files cannot be
+ * written, the files applyConfiguration wrote are restored from that backup too.
  */
 export async function applyWithResolvedConflicts(
   resolvedConflicts: Array<{
@@ -172,7 +299,9 @@ export async function applyWithResolvedConflicts(
     resolution: "keep" | "replace" | "merge" | "skip";
     content: string;
   }>,
-  targetPath: string
+  targetPath: string,
+  lock?: ApplyLock,
+  backupId?: string
 ): Promise<ApplyResult> {
   const result: ApplyResult = {
     success: false,
@@ -199,21 +328,130 @@ export async function applyWithResolvedConflicts(
   }
 
   if (filesToWrite.length > 0) {
+    const paths = filesToWrite.map((f) => f.path);
+    const backup = backupId
+      ? await extendBackup(targetPath, backupId, paths)
+      : await createBackup(
+          targetPath,
+          { configId: lock?.configId ?? "", version: lock?.version ?? "" },
+          paths
+        );
+    result.backupId = backup.id;
+
     const writeResult = await writeFilesToProject(filesToWrite, targetPath);
-    result.errors.push(...writeResult.errors);
+    if (writeResult.errors.length > 0) {
+      if (!backupId) {
+        await discardBackup(targetPath, backup.id);
+        return recordRollback(result, writeResult);
+      }
+      result.backupId = undefined;
+      return recordRollback(result, await rollBackFirstPass(targetPath, backupId, writeResult));
+    }
+
+    if (lock) {
+      for (const file of filesToWrite) {
+        const entry = lock.files[file.path];
+        if (entry && writeResult.created.includes(file.path)) {
+          entry.hash = hashContent(file.content);
+        }
+      }
+    }
+  }
+
+  // Finish the lockfile deferred by applyConfiguration
+  if (lock) {
+    const previousLock = await readLockfile(targetPath).catch(() => undefined);
+    for (const path of result.filesSkipped) {
+      recordKeptFile(lock, path, previousLock);
+    }
+    if (Object.keys(lock.files).length > 0) {
+      result.errors.push(...(await writeLockfile(targetPath, lock)));
+    }
+    result.lock = lock;
   }
 
   result.success = result.errors.length === 0;
   return result;
 }
 
+/**
+ * Restore the files applyConfiguration wrote after the resolved files failed to write
+ *
+ * The lockfile and merge bases in the backup are restored as well but not listed.
+ */
+async function rollBackFirstPass(
+  targetPath: string,
+  backupId: string,
+  writeResult: ProjectWriteResult
+): Promise<ProjectWriteResult> {
+  try {
+    const restore = await restoreBackup(targetPath, backupId);
+    return {
+      ...writeResult,
+      errors: [...writeResult.errors, ...restore.errors],
+      rolledBack: restore.errors.length === 0,
+      restored: [
+        ...new Set([...writeResult.restored, ...restore.restored, ...restore.removed]),
+      ].filter((path) => path !== LOCKFILE_PATH && !path.startsWith(OBJECTS_PATH)),
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { ...writeResult, errors: [...writeResult.errors, message], rolledBack: false };
+  }
+}
+
+/**
+ * A file as written when it is not merged with the project's copy
+ */
+export function withoutDirectives(file: ConfigurationFile): ConfigurationFile {
+  return file.type === "markdown"
+    ? { ...file, content: stripMarkdownDirectives(file.content) }
+    : file;
+}
+
+/**
+ * Conflicts still waiting for a decision (not resolved by a strategy)
+ */
+export function getUnresolvedConflicts(result: ApplyResult): ConflictInfo[] {
+  return result.conflicts.filter((conflict) => conflict.resolution === undefined);
+}
+
+/**
+ * Record a merge's warnings on an apply result, prefixed with the file path
+ */
+function recordWarnings(result: ApplyResult, path: string, warnings: string[] = []): void {
+  if (warnings.length > 0) {
+    result.warnings = [...(result.warnings ?? []), ...warnings.map((w) => `${path}: ${w}`)];
+  }
+}
+
+/**
+ * Record a failed write on an apply result
+ *
+ * The write is transactional, so nothing was created or modified; the lockfile
+ * is left untouched.
+ */
+export function recordRollback<T extends ApplyResult>(
+  result: T,
+  writeResult: ProjectWriteResult
+): T {
+  result.errors.push(...writeResult.errors);
+  result.filesCreated = [];
+  result.filesModified = [];
+  result.rolledBack = writeResult.rolledBack;
+  result.filesRestored = writeResult.restored;
+  result.lock = undefined;
+  result.success = false;
+  return result;
+}
+
 /**
  * Preview what would be applied (dry run)
  */
 export async function previewApply(
   config: Configuration,
   targetPath: string,
-  getConfig: (id: string) => Promise<Configuration | undefined>
+  getConfig: ParentLoader
 ): Promise<{
   filesToCreate: string[];
   filesToModify: string[];
@@ -0,0 +1,205 @@
+/**
+ * Apply lockfile - records which configuration produced a project's files
+ *
+ * Written to `.claude/cpm-lock.json` after every apply so projects can be audited
+ * and later compared against the library. The configuration content each file was
+ * applied from is kept in `.claude/cpm/objects/`, keyed by hash, as the common
+ * ancestor for three-way merges.
+ */
+
+import { createHash } from "crypto";
+import { readFile, readdir, rm } from "fs/promises";
+import { join } from "path";
+import type { ApplyLock, LockedFile, ResolvedConfiguration } from "../config/types.js";
+import { CLAUDE_DIR, CPM_LOCK_FILENAME, CPM_STATE_DIRNAME } from "../constants.js";
+import { writeFilesToProject } from "../config/writer.js";
+import { resolveSafePath } from "../config/path-safety.js";
+
+/**
+ * Current lockfile format version
+ */
+export const LOCKFILE_VERSION = 1;
+
+/**
+ * Project-relative path of the lockfile
+ */
+export const LOCKFILE_PATH = join(CLAUDE_DIR, CPM_LOCK_FILENAME);
+
+/**
+ * Project-relative directory holding applied configuration content
+ */
+export const OBJECTS_PATH = join(CLAUDE_DIR, CPM_STATE_DIRNAME, "objects");
+
+/**
+ * Hash file content for the lockfile
+ */
+export function hashContent(content: string): string {
+  return `sha256-${createHash("sha256").update(content, "utf-8").digest("hex")}`;
+}
+
+/**
+ * Create a lockfile for a resolved configuration with no files recorded yet
+ */
+export function createLock(config: ResolvedConfiguration): ApplyLock {
+  return {
+    lockfileVersion: LOCKFILE_VERSION,
+    configId: config.id,
+    version: config.version,
+    inheritanceChain: config.inheritanceChain,
+    ...(config.layers && { layers: config.layers }),
+    appliedAt: new Date().toISOString(),
+    files: {},
+  };
+}
+
+/**
+ * Record a written file in the lockfile
+ */
+export function recordFile(
+  lock: ApplyLock,
+  path: string,
+  writtenContent: string,
+  sourceContent: string
+): void {
+  lock.files[path] = {
+    hash: hashContent(writtenContent),
+    sourceHash: hashContent(sourceContent),
+  };
+}
+
+/**
+ * Mark a recorded file as kept: the project's copy stays in place
+ *
+ * A file applied before keeps its earlier base, so later merges and unapply
+ * still know what the configuration contributed; otherwise the file is flagged
+ * as holding nothing from the configuration.
+ */
+export function recordKeptFile(lock: ApplyLock, path: string, previous?: ApplyLock): void {
+  const entry = lock.files[path];
+  if (!entry) {
+    return;
+  }
+  const applied = previous?.configId === lock.configId ? previous.files[path] : undefined;
+  lock.files[path] = applied ? { ...applied, hash: entry.hash } : { ...entry, kept: true };
+}
+
+/**
+ * Read the lockfile from a project (undefined if the project has none)
+ */
+export async function readLockfile(targetPath: string): Promise<ApplyLock | undefined> {
+  let rawContent: string;
+
+  try {
+    rawContent = await readFile(resolveSafePath(targetPath, LOCKFILE_PATH), "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+
+  try {
+    return JSON.parse(rawContent) as ApplyLock;
+  } catch {
+    throw new Error(`Invalid JSON in ${LOCKFILE_PATH}`);
+  }
+}
+
+/**
+ * Write the lockfile into a project
+ */
+export async function writeLockfile(targetPath: string, lock: ApplyLock): Promise<string[]> {
+  const sortedFiles: Record<string, LockedFile> = {};
+  for (const path of Object.keys(lock.files).sort()) {
+    sortedFiles[path] = lock.files[path];
+  }
+
+  const content = JSON.stringify({ ...lock, files: sortedFiles }, null, 2) + "\n";
+  const writeResult = await writeFilesToProject(
+    [{ path: LOCKFILE_PATH, content, type: "json" }],
+    targetPath
+  );
+
+  if (writeResult.errors.length === 0) {
+    await pruneBaseContent(targetPath, lock);
+  }
+
+  return writeResult.errors;
+}
+
+/**
+ * Remove the lockfile and stored configuration content from a project
+ */
+export async function removeLockfile(targetPath: string): Promise<void> {
+  await rm(resolveSafePath(targetPath, LOCKFILE_PATH), { force: true });
+  await rm(resolveSafePath(targetPath, OBJECTS_PATH), { recursive: true, force: true });
+}
+
+/**
+ * Store applied configuration content so it can serve as a merge base later
+ */
+export async function writeBaseContent(targetPath: string, contents: string[]): Promise<string[]> {
+  const files = contents.map((content) => ({
+    path: join(OBJECTS_PATH, objectName(hashContent(content))),
+    content,
+    type: "text" as const,
+  }));
+
+  const writeResult = await writeFilesToProject(files, targetPath);
+  return writeResult.errors;
+}
+
+/**
+ * Read the configuration content a file was applied from (undefined if not stored)
+ */
+export async function readBaseContent(
+  targetPath: string,
+  sourceHash: string
+): Promise<string | undefined> {
+  try {
+    const content = await readFile(
+      resolveSafePath(targetPath, join(OBJECTS_PATH, objectName(sourceHash))),
+      "utf-8"
+    );
+    // Ignore objects that were tampered with or truncated
+    return hashContent(content) === sourceHash ? content : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Project-relative paths of the stored content a lockfile refers to
+ */
+export function getBaseContentPaths(lock: ApplyLock): string[] {
+  const names = new Set(Object.values(lock.files).map((f) => objectName(f.sourceHash)));
+  return [...names].map((name) => join(OBJECTS_PATH, name));
+}
+
+/**
+ * Remove stored content no longer referenced by the lockfile
+ */
+async function pruneBaseContent(targetPath: string, lock: ApplyLock): Promise<void> {
+  const referenced = new Set(Object.values(lock.files).map((f) => objectName(f.sourceHash)));
+  const objectsDir = resolveSafePath(targetPath, OBJECTS_PATH);
+
+  let entries: string[];
+  try {
+    entries = await readdir(objectsDir);
+  } catch {
+    return;
+  }
+
+  for (const entry of entries) {
+    if (!referenced.has(entry)) {
+      await rm(join(objectsDir, entry), { force: true });
+    }
+  }
+}
+
+/**
+ * Object filename for a content hash
+ */
+function objectName(hash: string): string {
+  return hash.replace(/^sha256-/, "");
+}
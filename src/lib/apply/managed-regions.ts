@@ -0,0 +1,193 @@
+/**
+ * Managed regions - cpm-owned blocks in CLAUDE.md
+ *
+ * Content a configuration writes into CLAUDE.md is wrapped in marker comments:
+ *
+ *   <!-- cpm:begin typescript-react -->
+ *   ...
+ *   <!-- cpm:end -->
+ *
+ * Re-applying or upgrading replaces only the content between the markers;
+ * everything outside them belongs to the project and is never touched.
+ */
+
+import { basename } from "path";
+import type { ResolvedConfiguration } from "../config/types.js";
+import { CLAUDE_MD_FILENAME } from "../constants.js";
+import { hasMarkdownDirectives, stripMarkdownDirectives } from "../config/markdown-directives.js";
+
+const BEGIN_PATTERN = /^\s*<!--\s*cpm:begin\s+(\S+)\s*-->\s*$/;
+const END_PATTERN = /^\s*<!--\s*cpm:end(?:\s+\S+)?\s*-->\s*$/;
+
+/**
+ * Warning for section directives dropped from a managed file
+ */
+export const IGNORED_DIRECTIVES_WARNING =
+  "Section directives are not applied to the project's own sections; the managed block is written without them";
+
+/**
+ * A managed region found in a file
+ */
+export interface ManagedRegion {
+  /** Configuration that owns the region */
+  id: string;
+  /** Content between the markers */
+  content: string;
+  /** Line index of the begin marker */
+  startLine: number;
+  /** Line index of the end marker */
+  endLine: number;
+}
+
+/**
+ * Result of replacing or removing a managed region
+ */
+export interface ManagedRegionUpdate {
+  /** Updated file content */
+  content: string;
+  /** Whether the region's previous content differed from what cpm last wrote */
+  edited: boolean;
+}
+
+/**
+ * Check if a file's configuration content is written as a managed region
+ */
+export function isManagedFile(filePath: string): boolean {
+  return basename(filePath) === CLAUDE_MD_FILENAME;
+}
+
+/**
+ * Wrap content in managed region markers (content already wrapped is returned as-is)
+ */
+export function wrapManagedRegion(id: string, content: string): string {
+  if (parseManagedBlock(content)) {
+    return content;
+  }
+  return `<!-- cpm:begin ${id} -->\n${content.trim()}\n<!-- cpm:end -->\n`;
+}
+
+/**
+ * Wrap the managed files of a resolved configuration in its managed region
+ */
+export function withManagedRegions(config: ResolvedConfiguration): ResolvedConfiguration {
+  return {
+    ...config,
+    resolvedFiles: config.resolvedFiles.map((file) =>
+      isManagedFile(file.path)
+        ? { ...file, content: wrapManagedRegion(config.id, stripMarkdownDirectives(file.content)) }
+        : file
+    ),
+  };
+}
+
+/**
+ * Managed files of a resolved configuration that still carry section directives
+ *
+ * Directives no parent matched are passed on to the project, but managed content
+ * is written into its block instead of being merged with the project's sections,
+ * so they are dropped.
+ */
+export function findIgnoredDirectives(config: ResolvedConfiguration): string[] {
+  return config.resolvedFiles
+    .filter((file) => isManagedFile(file.path) && hasMarkdownDirectives(file.content))
+    .map((file) => file.path);
+}
+
+/**
+ * Find the managed regions in a file (unterminated regions are ignored)
+ */
+export function findManagedRegions(content: string): ManagedRegion[] {
+  const regions: ManagedRegion[] = [];
+  const lines = content.split("\n");
+  let open: { id: string; startLine: number } | undefined;
+
+  lines.forEach((line, i) => {
+    const begin = line.match(BEGIN_PATTERN);
+    if (begin) {
+      open = { id: begin[1], startLine: i };
+    } else if (open && END_PATTERN.test(line)) {
+      regions.push({
+        ...open,
+        content: lines.slice(open.startLine + 1, i).join("\n"),
+        endLine: i,
+      });
+      open = undefined;
+    }
+  });
+
+  return regions;
+}
+
+/**
+ * The region if content consists of exactly one managed region
+ */
+export function parseManagedBlock(content: string): ManagedRegion | undefined {
+  const regions = findManagedRegions(content);
+  if (regions.length !== 1) {
+    return undefined;
+  }
+
+  const lines = content.split("\n");
+  const outside = [...lines.slice(0, regions[0].startLine), ...lines.slice(regions[0].endLine + 1)];
+  return outside.every((line) => line.trim() === "") ? regions[0] : undefined;
+}
+
+/**
+ * Put a managed block into a file
+ *
+ * An existing region with the same ID is replaced in place; otherwise the block
+ * is appended. `previous` is the block cpm wrote last time, used to detect local
+ * edits inside the region.
+ */
+export function replaceManagedRegion(
+  existing: string,
+  block: string,
+  previous?: string
+): ManagedRegionUpdate {
+  const incoming = parseManagedBlock(block);
+  const region = incoming && findManagedRegions(existing).find((r) => r.id === incoming.id);
+
+  if (!incoming || !region) {
+    const content = existing.trim() === "" ? block : `${existing.trimEnd()}\n\n${block}`;
+    return { content, edited: false };
+  }
+
+  const previousContent = previous !== undefined ? parseManagedBlock(previous)?.content : undefined;
+  const lines = existing.split("\n");
+
+  return {
+    content: [
+      ...lines.slice(0, region.startLine),
+      ...block.replace(/\n$/, "").split("\n"),
+      ...lines.slice(region.endLine + 1),
+    ].join("\n"),
+    edited: previousContent !== undefined && previousContent.trim() !== region.content.trim(),
+  };
+}
+
+/**
+ * Remove a managed region from a file
+ *
+ * `edited` is set when the region no longer holds the given block's content.
+ */
+export function removeManagedRegion(existing: string, block: string): ManagedRegionUpdate {
+  const incoming = parseManagedBlock(block);
+  const region = incoming && findManagedRegions(existing).find((r) => r.id === incoming.id);
+
+  if (!incoming || !region) {
+    return { content: existing, edited: false };
+  }
+
+  const lines = existing.split("\n");
+  const before = lines.slice(0, region.startLine).join("\n").trimEnd();
+  const after = lines
+    .slice(region.endLine + 1)
+    .join("\n")
+    .trim();
+  const content = [before, after].filter((part) => part !== "").join("\n\n");
+
+  return {
+    content: content === "" ? "" : `${content}\n`,
+    edited: incoming.content.trim() !== region.content.trim(),
+  };
+}
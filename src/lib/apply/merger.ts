@@ -4,8 +4,40 @@
  * Handles merging of different file types (markdown, JSON, etc.)
  */
 
-import type { MergeResult } from "../config/types.js";
+import { diffArrays } from "diff";
+import type { MergeResult, MergeRules, UnmergeResult } from "../config/types.js";
 import { getFileType } from "../constants.js";
+import { mergeYamlContent, type YamlMergeResult } from "../config/yaml-merge.js";
+import {
+  mergeJsonValues,
+  getMergeStrategy,
+  isPlainObject,
+  isDeepEqual,
+} from "../config/json-merge.js";
+import {
+  isSettingsFile,
+  mergeSettings,
+  getSettingsMergeRules,
+  completeSettings,
+  keptValueWarnings,
+} from "./settings-merge.js";
+import {
+  parseManagedBlock,
+  findManagedRegions,
+  replaceManagedRegion,
+  removeManagedRegion,
+} from "./managed-regions.js";
+import {
+  parseMarkdown,
+  renderMarkdown,
+  matchSections,
+  sectionsByKey,
+  sectionBody,
+  sectionName,
+  sameBody,
+  type MarkdownSection,
+} from "../config/markdown.js";
+import { mergeWithDirectives, hasMarkdownDirectives } from "../config/markdown-directives.js";
 
 /**
  * Merge two file contents based on file type
@@ -13,15 +45,20 @@ import { getFileType } from "../constants.js";
 export function mergeContent(
   existingContent: string,
   newContent: string,
-  filePath: string
+  filePath: string,
+  rules: MergeRules = {}
 ): MergeResult {
   const fileType = getFileType(filePath);
 
   switch (fileType) {
     case "markdown":
-      return mergeMarkdown(existingContent, newContent);
+      return parseManagedBlock(newContent)
+        ? mergeManagedBlock(existingContent, newContent, filePath)
+        : mergeMarkdown(existingContent, newContent);
     case "json":
-      return mergeJson(existingContent, newContent);
+      return isSettingsFile(filePath)
+        ? mergeSettingsJson(existingContent, newContent, rules)
+        : mergeJson(existingContent, newContent, rules);
     case "yaml":
       return mergeYaml(existingContent, newContent);
     default:
@@ -30,36 +67,149 @@ export function mergeContent(
 }
 
 /**
- * Merge markdown content by sections (headers)
+ * Three-way merge using the originally applied content as common ancestor
+ *
+ * Changes made on only one side (project or configuration) are taken as-is;
+ * only regions changed differently on both sides are reported as conflicts.
  */
-function mergeMarkdown(existing: string, newContent: string): MergeResult {
-  const existingSections = parseMarkdownSections(existing);
-  const newSections = parseMarkdownSections(newContent);
+export function mergeThreeWay(
+  baseContent: string,
+  existingContent: string,
+  newContent: string,
+  filePath: string,
+  rules: MergeRules = {}
+): MergeResult {
+  const fileType = getFileType(filePath);
 
-  // Track conflicts
-  const conflicts: string[] = [];
+  switch (fileType) {
+    case "markdown":
+      return parseManagedBlock(newContent)
+        ? mergeManagedBlock(existingContent, newContent, filePath, baseContent)
+        : hasMarkdownDirectives(newContent)
+          ? // Directives already say how to change the project's sections
+            mergeMarkdown(existingContent, newContent)
+          : mergeMarkdownThreeWay(baseContent, existingContent, newContent);
+    case "json": {
+      return isSettingsFile(filePath)
+        ? mergeSettingsJsonThreeWay(baseContent, existingContent, newContent, rules)
+        : mergeJsonThreeWay(baseContent, existingContent, newContent, rules);
+    }
+    case "yaml":
+      return mergeYaml(existingContent, newContent, baseContent);
+    default:
+      return mergeTextThreeWay(baseContent, existingContent, newContent);
+  }
+}
 
-  // Merge sections: prefer new content for same headers
-  const merged = new Map(existingSections);
+/**
+ * Remove content a configuration contributed to a file, leaving the rest
+ *
+ * Markdown sections and JSON keys (or array items) that still match what was
+ * contributed are removed. Contributed parts edited in the project are reported
+ * and kept, unless removeEdited is set.
+ */
+export function unmergeContent(
+  existingContent: string,
+  contributedContent: string,
+  filePath: string,
+  removeEdited = false
+): UnmergeResult {
+  if (existingContent.trim() === contributedContent.trim()) {
+    return { content: "", edited: [] };
+  }
 
-  for (const [header, content] of newSections) {
-    if (merged.has(header) && merged.get(header) !== content) {
-      // Conflict - mark it
-      conflicts.push(header || "(top-level content)");
-    }
-    merged.set(header, content);
+  switch (getFileType(filePath)) {
+    case "markdown":
+      return parseManagedBlock(contributedContent)
+        ? unmergeManagedBlock(existingContent, contributedContent, removeEdited)
+        : unmergeMarkdown(existingContent, contributedContent, removeEdited);
+    case "json":
+      return unmergeJson(existingContent, contributedContent, removeEdited);
+    default:
+      // No structure to separate contributed from project content
+      return removeEdited
+        ? { content: "", edited: [filePath] }
+        : { content: existingContent, edited: [filePath] };
   }
+}
 
-  // Reconstruct markdown
-  const lines: string[] = [];
-  for (const [header, content] of merged) {
-    if (header) {
-      lines.push(header);
-    }
-    lines.push(content);
+/**
+ * Put a managed block into a file, leaving everything outside it untouched
+ *
+ * When the file has no region for the block yet but holds content applied before
+ * managed regions were used, that content is taken out first.
+ */
+function mergeManagedBlock(
+  existing: string,
+  block: string,
+  filePath: string,
+  base?: string
+): MergeResult {
+  const { id } = parseManagedBlock(block)!;
+  let projectContent = existing;
+
+  if (base !== undefined && !findManagedRegions(existing).some((r) => r.id === id)) {
+    projectContent = unmergeContent(existing, base, filePath).content;
+  }
+
+  const update = replaceManagedRegion(projectContent, block, base);
+  return {
+    success: true,
+    content: update.content,
+    hasConflicts: false,
+    conflictMarkers: 0,
+    warnings: update.edited ? [`Replaced local edits inside the cpm:${id} block`] : [],
+  };
+}
+
+/**
+ * Remove a contributed managed block, reporting it if it was edited
+ *
+ * Files without the block may hold the same content applied before managed
+ * regions were used; it is removed section by section instead.
+ */
+function unmergeManagedBlock(
+  existing: string,
+  block: string,
+  removeEdited: boolean
+): UnmergeResult {
+  const { id, content } = parseManagedBlock(block)!;
+
+  if (!findManagedRegions(existing).some((r) => r.id === id)) {
+    return unmergeMarkdown(existing, content, removeEdited);
+  }
+
+  const update = removeManagedRegion(existing, block);
+
+  if (update.edited && !removeEdited) {
+    return { content: existing, edited: [`cpm:${id} block`] };
   }
+  return { content: update.content, edited: [] };
+}
+
+/**
+ * Merge markdown content by sections (headings), keeping nesting and order
+ */
+function mergeMarkdown(existing: string, newContent: string): MergeResult {
+  // Track conflicts
+  const conflicts: string[] = [];
+
+  // Merge sections: prefer new content for same headings (or follow its directives)
+  const merged = mergeWithDirectives(existing, newContent, (ours, theirs) => {
+    if (!theirs.body.some((line) => line.trim())) {
+      return ours.body;
+    }
+    if (
+      ours.body.some((line) => line.trim()) &&
+      !sameBody(sectionBody(ours), sectionBody(theirs))
+    ) {
+      // Conflict - mark it
+      conflicts.push(sectionName(ours));
+    }
+    return theirs.body;
+  });
 
-  const mergedContent = lines.join("\n").trim();
+  const mergedContent = renderMarkdown(merged).trim();
 
   return {
     success: conflicts.length === 0,
@@ -70,45 +220,204 @@ function mergeMarkdown(existing: string, newContent: string): MergeResult {
 }
 
 /**
- * Parse markdown into sections by headers
+ * Three-way merge of markdown sections
  */
-function parseMarkdownSections(content: string): Map<string, string> {
-  const sections = new Map<string, string>();
-  const lines = content.split("\n");
+function mergeMarkdownThreeWay(base: string, existing: string, newContent: string): MergeResult {
+  const counter = { conflictMarkers: 0 };
+  const merged = mergeSectionThreeWay(
+    parseMarkdown(base),
+    parseMarkdown(existing),
+    parseMarkdown(newContent),
+    counter
+  );
 
-  let currentHeader = "";
-  let currentContent: string[] = [];
+  return {
+    success: counter.conflictMarkers === 0,
+    content: merged ? renderMarkdown(merged) : "",
+    hasConflicts: counter.conflictMarkers > 0,
+    conflictMarkers: counter.conflictMarkers,
+  };
+}
 
-  for (const line of lines) {
-    if (line.match(/^#{1,6}\s/)) {
-      // New header found - save previous section
-      if (currentHeader || currentContent.length > 0) {
-        sections.set(currentHeader, currentContent.join("\n"));
-      }
-      currentHeader = line;
-      currentContent = [];
+/**
+ * Three-way merge of a section and its subsections (undefined if deleted)
+ */
+function mergeSectionThreeWay(
+  base: MarkdownSection | undefined,
+  existing: MarkdownSection | undefined,
+  newSection: MarkdownSection | undefined,
+  counter: { conflictMarkers: number }
+): MarkdownSection | undefined {
+  const baseBody = base && sectionBody(base);
+  const existingBody = existing && sectionBody(existing);
+  const newBody = newSection && sectionBody(newSection);
+
+  let body: string[] | undefined;
+
+  if (sameBody(existingBody, newBody) || sameBody(newBody, baseBody)) {
+    body = existing?.body;
+  } else if (sameBody(existingBody, baseBody)) {
+    body = newSection?.body;
+  } else {
+    // Both sides changed the section - merge its lines
+    const sectionResult = mergeTextThreeWay(baseBody ?? "", existingBody ?? "", newBody ?? "");
+    counter.conflictMarkers += sectionResult.conflictMarkers;
+    body = sectionResult.content.split("\n");
+  }
+
+  // Keep project subsection order, placing sections added by the configuration
+  const baseChildren = sectionsByKey(base?.children ?? []);
+  const children = matchSections(existing?.children ?? [], newSection?.children ?? [])
+    .map((match) =>
+      mergeSectionThreeWay(baseChildren.get(match.key), match.ours, match.theirs, counter)
+    )
+    .filter((child): child is MarkdownSection => child !== undefined);
+
+  // Section deleted on one side and untouched on the other
+  if (body === undefined && children.length === 0) {
+    return undefined;
+  }
+
+  const section = (existing ?? newSection)!;
+  return { ...section, body: body ?? [], children };
+}
+
+/**
+ * Remove contributed markdown sections
+ */
+function unmergeMarkdown(
+  existing: string,
+  contributed: string,
+  removeEdited: boolean
+): UnmergeResult {
+  const edited: string[] = [];
+  const remaining = unmergeSection(
+    parseMarkdown(existing),
+    parseMarkdown(contributed),
+    removeEdited,
+    edited
+  );
+
+  const content = remaining ? renderMarkdown(remaining) : "";
+  return { content: content.trim() ? content : "", edited };
+}
+
+/**
+ * Remove a contributed section and its contributed subsections (undefined if nothing is left)
+ */
+function unmergeSection(
+  existing: MarkdownSection,
+  contributed: MarkdownSection | undefined,
+  removeEdited: boolean,
+  edited: string[]
+): MarkdownSection | undefined {
+  const contributedChildren = sectionsByKey(contributed?.children ?? []);
+  const children = [...sectionsByKey(existing.children)]
+    .map(([key, child]) =>
+      unmergeSection(child, contributedChildren.get(key), removeEdited, edited)
+    )
+    .filter((child): child is MarkdownSection => child !== undefined);
+
+  let body = existing.body;
+
+  // Untitled preamble only counts if the configuration had one
+  const contributedBody = contributed && sectionBody(contributed);
+  if (contributedBody !== undefined && (existing.heading || contributedBody.trim())) {
+    if (sameBody(sectionBody(existing), contributedBody)) {
+      body = [];
     } else {
-      currentContent.push(line);
+      edited.push(sectionName(existing));
+      if (removeEdited) {
+        body = [];
+      }
+    }
+
+    // Contributed heading with nothing of the project's left under it
+    if (body.length === 0 && children.length === 0) {
+      return undefined;
+    }
+  }
+
+  return { ...existing, body, children };
+}
+
+/**
+ * Remove contributed JSON keys and array items
+ */
+function unmergeJson(existing: string, contributed: string, removeEdited: boolean): UnmergeResult {
+  let existingObj: unknown;
+  let contributedObj: unknown;
+
+  try {
+    existingObj = JSON.parse(existing);
+    contributedObj = JSON.parse(contributed);
+  } catch {
+    return removeEdited
+      ? { content: "", edited: ["(file)"] }
+      : { content: existing, edited: ["(file)"] };
+  }
+
+  const edited: string[] = [];
+  const remaining = unmergeValue(existingObj, contributedObj, removeEdited, edited, "");
+
+  return {
+    content: remaining === undefined ? "" : JSON.stringify(remaining, null, 2),
+    edited,
+  };
+}
+
+/**
+ * Remove a contributed JSON value (undefined when nothing is left)
+ */
+function unmergeValue(
+  existing: unknown,
+  contributed: unknown,
+  removeEdited: boolean,
+  edited: string[],
+  path: string
+): unknown {
+  if (isDeepEqual(existing, contributed)) {
+    return undefined;
+  }
+
+  if (isPlainObject(existing) && isPlainObject(contributed)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(existing)) {
+      const remaining =
+        key in contributed
+          ? unmergeValue(
+              value,
+              contributed[key],
+              removeEdited,
+              edited,
+              path ? `${path}.${key}` : key
+            )
+          : value;
+      if (remaining !== undefined) {
+        result[key] = remaining;
+      }
     }
+    return Object.keys(result).length > 0 ? result : undefined;
   }
 
-  // Don't forget the last section
-  if (currentHeader || currentContent.length > 0) {
-    sections.set(currentHeader, currentContent.join("\n"));
+  if (Array.isArray(existing) && Array.isArray(contributed)) {
+    const result = existing.filter((item) => !contributed.some((c) => isDeepEqual(item, c)));
+    return result.length > 0 ? result : undefined;
   }
 
-  return sections;
+  edited.push(path || "(root)");
+  return removeEdited ? undefined : existing;
 }
 
 /**
- * Merge JSON content with deep merge
+ * Merge JSON content with deep merge, following merge strategies
  */
-function mergeJson(existing: string, newContent: string): MergeResult {
+function mergeJson(existing: string, newContent: string, rules: MergeRules): MergeResult {
   try {
     const existingObj = JSON.parse(existing);
     const newObj = JSON.parse(newContent);
 
-    const merged = deepMerge(existingObj, newObj);
+    const merged = mergeJsonValues(existingObj, newObj, rules);
     const mergedContent = JSON.stringify(merged, null, 2);
 
     return {
@@ -124,16 +433,207 @@ function mergeJson(existing: string, newContent: string): MergeResult {
 }
 
 /**
- * Merge YAML content (simplified - currently same as text)
+ * Merge Claude Code settings, reporting permission contradictions
+ */
+function mergeSettingsJson(existing: string, newContent: string, rules: MergeRules): MergeResult {
+  try {
+    const merged = mergeSettings(JSON.parse(existing), JSON.parse(newContent), rules);
+
+    return {
+      success: true,
+      content: JSON.stringify(merged.settings, null, 2),
+      hasConflicts: false,
+      conflictMarkers: 0,
+      warnings: merged.warnings,
+    };
+  } catch {
+    return createConflictResult(existing, newContent);
+  }
+}
+
+/**
+ * Three-way merge of Claude Code settings
+ *
+ * Uses the same strategies as the two-way settings merge; deny rules from the
+ * base, the project and the configuration are all kept.
+ */
+function mergeSettingsJsonThreeWay(
+  base: string,
+  existing: string,
+  newContent: string,
+  rules: MergeRules
+): MergeResult {
+  const effectiveRules = getSettingsMergeRules(rules);
+  const result = mergeJsonThreeWay(base, existing, newContent, effectiveRules);
+  if (result.hasConflicts) {
+    return result;
+  }
+
+  try {
+    const [baseObj, existingObj, newObj] = [base, existing, newContent].map((c) => JSON.parse(c));
+    const completed = completeSettings(
+      JSON.parse(result.content),
+      [baseObj, existingObj, newObj],
+      keptValueWarnings(existingObj, newObj, effectiveRules, baseObj)
+    );
+    return {
+      ...result,
+      content: JSON.stringify(completed.settings, null, 2),
+      warnings: completed.warnings,
+    };
+  } catch {
+    return result;
+  }
+}
+
+/**
+ * Three-way merge of JSON content by key
  */
-function mergeYaml(_existing: string, newContent: string): MergeResult {
-  // For YAML, we do a simple replacement for now
-  // A more sophisticated implementation would parse and merge
+function mergeJsonThreeWay(
+  base: string,
+  existing: string,
+  newContent: string,
+  rules: MergeRules
+): MergeResult {
+  let baseObj: unknown;
+  let existingObj: unknown;
+  let newObj: unknown;
+
+  try {
+    baseObj = JSON.parse(base);
+    existingObj = JSON.parse(existing);
+    newObj = JSON.parse(newContent);
+  } catch {
+    return mergeTextThreeWay(base, existing, newContent);
+  }
+
+  const conflicts: string[] = [];
+  const preferExisting = mergeValuesThreeWay(
+    baseObj,
+    existingObj,
+    newObj,
+    "existing",
+    conflicts,
+    "",
+    rules
+  );
+
+  if (conflicts.length === 0) {
+    return {
+      success: true,
+      content: JSON.stringify(preferExisting, null, 2),
+      hasConflicts: false,
+      conflictMarkers: 0,
+    };
+  }
+
+  // Show both candidates; they differ only at the conflicting keys
+  const preferNew = mergeValuesThreeWay(baseObj, existingObj, newObj, "new", [], "", rules);
   return {
-    success: true,
-    content: newContent,
-    hasConflicts: false,
-    conflictMarkers: 0,
+    ...createConflictResult(
+      JSON.stringify(preferExisting, null, 2),
+      JSON.stringify(preferNew, null, 2)
+    ),
+    conflictMarkers: conflicts.length,
+  };
+}
+
+/**
+ * Three-way merge of parsed JSON values, recording conflicting key paths
+ */
+function mergeValuesThreeWay(
+  base: unknown,
+  existing: unknown,
+  newValue: unknown,
+  prefer: "existing" | "new",
+  conflicts: string[],
+  keyPath: string,
+  rules: MergeRules
+): unknown {
+  if (isDeepEqual(existing, newValue) || isDeepEqual(newValue, base)) {
+    return existing;
+  }
+  if (isDeepEqual(existing, base)) {
+    return newValue;
+  }
+
+  // Both sides changed - an explicit strategy decides without a conflict
+  const strategy = getMergeStrategy(rules, keyPath);
+  if (strategy === "keep" && existing !== undefined) {
+    return existing;
+  }
+  if (strategy === "replace") {
+    return newValue;
+  }
+
+  if (isPlainObject(existing) && isPlainObject(newValue)) {
+    const baseObj = isPlainObject(base) ? base : {};
+    const result: Record<string, unknown> = {};
+    const keys = [...new Set([...Object.keys(existing), ...Object.keys(newValue)])];
+
+    for (const key of keys) {
+      const merged = mergeValuesThreeWay(
+        baseObj[key],
+        existing[key],
+        newValue[key],
+        prefer,
+        conflicts,
+        keyPath ? `${keyPath}.${key}` : key,
+        rules
+      );
+      if (merged !== undefined) {
+        result[key] = merged;
+      }
+    }
+
+    return result;
+  }
+
+  if (Array.isArray(existing) && Array.isArray(newValue)) {
+    // Apply the configuration's additions and removals to the project's array
+    const baseArr = Array.isArray(base) ? base : [];
+    const removed = baseArr.filter((b) => !newValue.some((n) => isDeepEqual(n, b)));
+    const added = newValue.filter((n) => !baseArr.some((b) => isDeepEqual(n, b)));
+    const result = existing.filter((e) => !removed.some((r) => isDeepEqual(e, r)));
+    const missing = added.filter((item) => !result.some((r) => isDeepEqual(r, item)));
+
+    return strategy === "prepend" ? [...missing, ...result] : [...result, ...missing];
+  }
+
+  conflicts.push(keyPath || "(root)");
+  return prefer === "existing" ? existing : newValue;
+}
+
+/**
+ * Merge YAML content by key, keeping the project's comments and layout
+ *
+ * With the originally applied content as base, the merge is three-way.
+ */
+function mergeYaml(existing: string, newContent: string, base?: string): MergeResult {
+  let preferNew: YamlMergeResult;
+  try {
+    preferNew = mergeYamlContent(existing, newContent, "overlay", base);
+  } catch {
+    // YAML parsing failed - merge as text
+    return base !== undefined
+      ? mergeTextThreeWay(base, existing, newContent)
+      : createConflictResult(existing, newContent);
+  }
+
+  if (preferNew.conflicts.length === 0) {
+    return {
+      success: true,
+      content: preferNew.content,
+      hasConflicts: false,
+      conflictMarkers: 0,
+    };
+  }
+
+  // Show both candidates; they differ only at the conflicting keys
+  const preferExisting = mergeYamlContent(existing, newContent, "base", base);
+  return {
+    ...createConflictResult(preferExisting.content, preferNew.content),
+    conflictMarkers: preferNew.conflicts.length,
   };
 }
 
@@ -154,54 +654,129 @@ function mergeText(existing: string, newContent: string): MergeResult {
 }
 
 /**
- * Create a result with conflict markers
+ * Three-way merge of plain text by lines (diff3)
  */
-function createConflictResult(existing: string, newContent: string): MergeResult {
-  const content = `<<<<<<< EXISTING
-${existing}
-=======
-${newContent}
->>>>>>> NEW`;
+function mergeTextThreeWay(base: string, existing: string, newContent: string): MergeResult {
+  const baseLines = base.split("\n");
+  const existingLines = existing.split("\n");
+  const newLines = newContent.split("\n");
+
+  const existingMatches = matchLines(baseLines, existingLines);
+  const newMatches = matchLines(baseLines, newLines);
+
+  const lines: string[] = [];
+  let conflictMarkers = 0;
+  let baseIndex = 0;
+  let existingIndex = 0;
+  let newIndex = 0;
+
+  const resolveChunk = (baseEnd: number, existingEnd: number, newEnd: number) => {
+    const baseChunk = baseLines.slice(baseIndex, baseEnd);
+    const existingChunk = existingLines.slice(existingIndex, existingEnd);
+    const newChunk = newLines.slice(newIndex, newEnd);
+
+    if (arraysEqual(existingChunk, baseChunk) || arraysEqual(existingChunk, newChunk)) {
+      lines.push(...newChunk);
+    } else if (arraysEqual(newChunk, baseChunk)) {
+      lines.push(...existingChunk);
+    } else {
+      conflictMarkers++;
+      lines.push("<<<<<<< EXISTING", ...existingChunk, "=======", ...newChunk, ">>>>>>> NEW");
+    }
+
+    baseIndex = baseEnd;
+    existingIndex = existingEnd;
+    newIndex = newEnd;
+  };
+
+  while (
+    baseIndex < baseLines.length ||
+    existingIndex < existingLines.length ||
+    newIndex < newLines.length
+  ) {
+    // Copy lines unchanged on both sides
+    if (
+      baseIndex < baseLines.length &&
+      existingMatches[baseIndex] === existingIndex &&
+      newMatches[baseIndex] === newIndex
+    ) {
+      lines.push(baseLines[baseIndex]);
+      baseIndex++;
+      existingIndex++;
+      newIndex++;
+      continue;
+    }
+
+    // Find the next base line both sides still have
+    let syncIndex = baseIndex;
+    while (
+      syncIndex < baseLines.length &&
+      (existingMatches[syncIndex] === undefined || newMatches[syncIndex] === undefined)
+    ) {
+      syncIndex++;
+    }
+
+    if (syncIndex === baseLines.length) {
+      resolveChunk(baseLines.length, existingLines.length, newLines.length);
+    } else {
+      resolveChunk(syncIndex, existingMatches[syncIndex]!, newMatches[syncIndex]!);
+    }
+  }
 
   return {
-    success: false,
-    content,
-    hasConflicts: true,
-    conflictMarkers: 1,
+    success: conflictMarkers === 0,
+    content: lines.join("\n"),
+    hasConflicts: conflictMarkers > 0,
+    conflictMarkers,
   };
 }
 
 /**
- * Deep merge two objects
+ * Map each base line index to its matching line index in another version
  */
-function deepMerge<T extends Record<string, unknown>>(target: T, source: T): T {
-  const result = { ...target };
-
-  for (const key of Object.keys(source)) {
-    const sourceValue = source[key];
-    const targetValue = result[key as keyof T];
+function matchLines(baseLines: string[], otherLines: string[]): Array<number | undefined> {
+  const matches: Array<number | undefined> = new Array(baseLines.length);
+  let baseIndex = 0;
+  let otherIndex = 0;
 
-    if (isPlainObject(sourceValue) && isPlainObject(targetValue)) {
-      result[key as keyof T] = deepMerge(
-        targetValue as Record<string, unknown>,
-        sourceValue as Record<string, unknown>
-      ) as T[keyof T];
-    } else if (Array.isArray(sourceValue) && Array.isArray(targetValue)) {
-      // Merge arrays - concatenate unique values
-      result[key as keyof T] = [...new Set([...targetValue, ...sourceValue])] as T[keyof T];
+  for (const change of diffArrays(baseLines, otherLines)) {
+    if (change.added) {
+      otherIndex += change.count;
+    } else if (change.removed) {
+      baseIndex += change.count;
     } else {
-      result[key as keyof T] = sourceValue as T[keyof T];
+      for (let i = 0; i < change.count; i++) {
+        matches[baseIndex++] = otherIndex++;
+      }
     }
   }
 
-  return result;
+  return matches;
+}
+
+/**
+ * Check if two string arrays are equal
+ */
+function arraysEqual(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
 }
 
 /**
- * Check if value is a plain object
+ * Create a result with conflict markers
  */
-function isPlainObject(value: unknown): value is Record<string, unknown> {
-  return typeof value === "object" && value !== null && !Array.isArray(value);
+export function createConflictResult(existing: string, newContent: string): MergeResult {
+  const content = `<<<<<<< EXISTING
+${existing}
+=======
+${newContent}
+>>>>>>> NEW`;
+
+  return {
+    success: false,
+    content,
+    hasConflicts: true,
+    conflictMarkers: 1,
+  };
 }
 
 /**
@@ -0,0 +1,247 @@
+/**
+ * Claude Code settings merge
+ *
+ * `.claude/settings.json` is merged like any JSON file, with knowledge of its
+ * keys: hook entries are grouped by matcher and deduplicated, deny rules from
+ * both sides are kept, a tool pattern both allowed and denied keeps only its
+ * deny rule, and the project's `env` values and `model` win over the
+ * configuration's unless a merge strategy says otherwise.
+ */
+
+import type { MergeRules } from "../config/types.js";
+import {
+  mergeJsonValues,
+  getMergeStrategy,
+  isPlainObject,
+  isDeepEqual,
+} from "../config/json-merge.js";
+
+/**
+ * Matches Claude Code settings files (shared and local)
+ */
+const SETTINGS_FILE_PATTERN = /(^|\/)\.claude\/settings(\.local)?\.json$/;
+
+/**
+ * Strategies applied to settings unless the configuration declares its own
+ */
+const SETTINGS_MERGE_RULES: MergeRules = {
+  model: "keep",
+  "env.*": "keep",
+};
+
+/**
+ * Permission lists that give way to deny rules
+ */
+const PERMISSIVE_LISTS = ["allow", "ask"] as const;
+
+/**
+ * Result of merging or normalizing settings
+ */
+export interface SettingsMergeResult {
+  /** Merged settings */
+  settings: unknown;
+  /** Contradictions and dropped values worth reporting */
+  warnings: string[];
+}
+
+/**
+ * Check if a path is a Claude Code settings file
+ */
+export function isSettingsFile(filePath: string): boolean {
+  return SETTINGS_FILE_PATTERN.test(filePath.replace(/\\/g, "/"));
+}
+
+/**
+ * Merge incoming settings into existing settings
+ */
+export function mergeSettings(
+  existing: unknown,
+  incoming: unknown,
+  rules: MergeRules = {}
+): SettingsMergeResult {
+  const effectiveRules = getSettingsMergeRules(rules);
+  const merged = mergeJsonValues(existing, incoming, effectiveRules);
+  return completeSettings(
+    merged,
+    [existing, incoming],
+    keptValueWarnings(existing, incoming, effectiveRules)
+  );
+}
+
+/**
+ * Strategies for merging settings: the defaults under the configuration's own,
+ * with deny rules from either side never dropped
+ */
+export function getSettingsMergeRules(rules: MergeRules = {}): MergeRules {
+  const effectiveRules = { ...SETTINGS_MERGE_RULES, ...rules };
+
+  const denyStrategy = getMergeStrategy(effectiveRules, "permissions.deny");
+  if (denyStrategy === "replace" || denyStrategy === "keep") {
+    effectiveRules["permissions.deny"] = "union";
+  }
+
+  return effectiveRules;
+}
+
+/**
+ * Finish merged settings: add back deny rules of the sources and normalize
+ *
+ * A strategy on an enclosing key (e.g. replacing all of permissions) can still
+ * drop one side's deny rules, so they are added back before normalizing.
+ */
+export function completeSettings(
+  merged: unknown,
+  sources: unknown[],
+  warnings: string[] = []
+): SettingsMergeResult {
+  const normalized = normalizeSettings(withDenyRules(merged, sources));
+  return { settings: normalized.settings, warnings: [...warnings, ...normalized.warnings] };
+}
+
+/**
+ * Report project values kept over differing configuration values
+ *
+ * With a base, values the project has not changed from it are not kept (the
+ * configuration's change is taken) and so are not reported.
+ */
+export function keptValueWarnings(
+  existing: unknown,
+  incoming: unknown,
+  rules: MergeRules,
+  base?: unknown
+): string[] {
+  const warnings: string[] = [];
+  if (!isPlainObject(existing) || !isPlainObject(incoming)) {
+    return warnings;
+  }
+
+  const baseSettings = isPlainObject(base) ? base : undefined;
+  const kept = (keyPath: string, ours: unknown, theirs: unknown, original: unknown): void => {
+    if (
+      ours !== undefined &&
+      theirs !== undefined &&
+      !isDeepEqual(ours, theirs) &&
+      !(baseSettings && isDeepEqual(ours, original)) &&
+      getMergeStrategy(rules, keyPath) === "keep"
+    ) {
+      warnings.push(
+        `Kept project ${keyPath} ${JSON.stringify(ours)} over ${JSON.stringify(theirs)}`
+      );
+    }
+  };
+
+  kept("model", existing.model, incoming.model, baseSettings?.model);
+  if (isPlainObject(existing.env) && isPlainObject(incoming.env)) {
+    const baseEnv = isPlainObject(baseSettings?.env) ? baseSettings.env : {};
+    for (const key of Object.keys(incoming.env)) {
+      kept(`env.${key}`, existing.env[key], incoming.env[key], baseEnv[key]);
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Add the deny rules of the given settings that merged settings are missing
+ */
+function withDenyRules(settings: unknown, sources: unknown[]): unknown {
+  if (!isPlainObject(settings)) {
+    return settings;
+  }
+
+  const permissions = isPlainObject(settings.permissions) ? settings.permissions : {};
+  const deny = Array.isArray(permissions.deny) ? [...permissions.deny] : [];
+  for (const source of sources) {
+    const rules =
+      isPlainObject(source) && isPlainObject(source.permissions) ? source.permissions.deny : [];
+    for (const rule of Array.isArray(rules) ? rules : []) {
+      if (!deny.some((d) => isDeepEqual(d, rule))) {
+        deny.push(rule);
+      }
+    }
+  }
+
+  return deny.length === 0 ? settings : { ...settings, permissions: { ...permissions, deny } };
+}
+
+/**
+ * Deduplicate hooks and drop permissions contradicted by deny rules
+ */
+export function normalizeSettings(settings: unknown): SettingsMergeResult {
+  const warnings: string[] = [];
+
+  if (!isPlainObject(settings)) {
+    return { settings, warnings };
+  }
+
+  const result: Record<string, unknown> = { ...settings };
+
+  if (isPlainObject(settings.hooks)) {
+    const hooks: Record<string, unknown> = {};
+    for (const [event, groups] of Object.entries(settings.hooks)) {
+      hooks[event] = Array.isArray(groups) ? mergeHookGroups(groups) : groups;
+    }
+    result.hooks = hooks;
+  }
+
+  if (isPlainObject(settings.permissions) && Array.isArray(settings.permissions.deny)) {
+    const permissions: Record<string, unknown> = { ...settings.permissions };
+    const deny = settings.permissions.deny;
+
+    for (const list of PERMISSIVE_LISTS) {
+      const rules = permissions[list];
+      if (!Array.isArray(rules)) {
+        continue;
+      }
+
+      const contradicted = rules.filter((rule) => deny.some((d) => isDeepEqual(d, rule)));
+      for (const rule of contradicted) {
+        warnings.push(
+          `${String(rule)} is in both permissions.${list} and permissions.deny; kept deny`
+        );
+      }
+      permissions[list] = rules.filter((rule) => !contradicted.includes(rule));
+    }
+
+    result.permissions = permissions;
+  }
+
+  return { settings: result, warnings };
+}
+
+/**
+ * Combine hook groups with the same matcher, removing duplicate hook entries
+ */
+function mergeHookGroups(groups: unknown[]): unknown[] {
+  const result: unknown[] = [];
+  const byMatcher = new Map<string, Record<string, unknown>>();
+
+  for (const group of groups) {
+    if (!isPlainObject(group) || !Array.isArray(group.hooks)) {
+      if (!result.some((existing) => isDeepEqual(existing, group))) {
+        result.push(group);
+      }
+      continue;
+    }
+
+    const matcher = JSON.stringify(group.matcher ?? "");
+    const existing = byMatcher.get(matcher);
+
+    if (!existing) {
+      const copy = { ...group, hooks: dedupe(group.hooks) };
+      byMatcher.set(matcher, copy);
+      result.push(copy);
+    } else {
+      existing.hooks = dedupe([...(existing.hooks as unknown[]), ...group.hooks]);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Remove structurally equal items, keeping the first occurrence
+ */
+function dedupe(items: unknown[]): unknown[] {
+  return items.filter((item, i) => items.findIndex((other) => isDeepEqual(other, item)) === i);
+}
@@ -0,0 +1,147 @@
+/**
+ * Drift detection - compares a project against its applied configuration
+ */
+
+import type { ApplyLock, ResolvedConfiguration } from "../config/types.js";
+import { readProjectFile } from "./detector.js";
+import { generateDiff, getDiffSummary, type DiffResult } from "./differ.js";
+import { hashContent } from "./lockfile.js";
+import { withManagedRegions } from "./managed-regions.js";
+
+/**
+ * Overall drift state of a file
+ * - unchanged: project matches what was applied and the configuration has not changed
+ * - modified: edited in the project since it was applied
+ * - outdated: the configuration now resolves to different content
+ * - diverged: both modified locally and outdated upstream
+ */
+export type FileDriftState = "unchanged" | "modified" | "outdated" | "diverged";
+
+/**
+ * Local side of a file's drift
+ */
+export type LocalFileState = "unchanged" | "modified" | "missing";
+
+/**
+ * Upstream (configuration) side of a file's drift
+ */
+export type UpstreamFileState = "unchanged" | "changed" | "added" | "removed";
+
+/**
+ * Drift status of a single file
+ */
+export interface FileStatus {
+  /** File path relative to project */
+  path: string;
+  /** Overall drift state */
+  state: FileDriftState;
+  /** Whether the project copy changed since apply */
+  local: LocalFileState;
+  /** Whether the configuration changed since apply */
+  upstream: UpstreamFileState;
+  /** Diff from the project copy to what the configuration resolves to now */
+  diff?: DiffResult;
+  /** Short summary of the diff (e.g. "+3, -1") */
+  diffSummary?: string;
+}
+
+/**
+ * Drift status of a project
+ */
+export interface ProjectStatus {
+  /** Applied configuration ID */
+  configId: string;
+  /** Version recorded at apply time */
+  appliedVersion: string;
+  /** Version the library currently holds */
+  currentVersion: string;
+  /** When the configuration was applied */
+  appliedAt: string;
+  /** Per-file status */
+  files: FileStatus[];
+  /** Whether any file has drifted */
+  drifted: boolean;
+}
+
+/**
+ * Compare a project's files against its lockfile and the currently resolved configuration
+ */
+export async function getProjectStatus(
+  targetPath: string,
+  lock: ApplyLock,
+  resolvedConfig: ResolvedConfiguration
+): Promise<ProjectStatus> {
+  const files: FileStatus[] = [];
+  const resolvedByPath = new Map(
+    withManagedRegions(resolvedConfig).resolvedFiles.map((f) => [f.path, f])
+  );
+  const paths = [...new Set([...Object.keys(lock.files), ...resolvedByPath.keys()])].sort();
+
+  for (const path of paths) {
+    const locked = lock.files[path];
+    const resolved = resolvedByPath.get(path);
+    const projectContent = await readProjectFile(targetPath, path);
+
+    // Local side
+    let local: LocalFileState = "unchanged";
+    if (locked) {
+      if (projectContent === undefined) {
+        local = "missing";
+      } else if (hashContent(projectContent) !== locked.hash) {
+        local = "modified";
+      }
+    }
+
+    // Upstream side
+    let upstream: UpstreamFileState = "unchanged";
+    if (!locked) {
+      upstream = "added";
+    } else if (!resolved) {
+      upstream = "removed";
+    } else if (hashContent(resolved.content) !== locked.sourceHash) {
+      upstream = "changed";
+    }
+
+    const status: FileStatus = {
+      path,
+      state: getDriftState(local, upstream),
+      local,
+      upstream,
+    };
+
+    if (status.state !== "unchanged") {
+      status.diff = generateDiff(projectContent ?? "", resolved?.content ?? "", path);
+      status.diffSummary = getDiffSummary(status.diff);
+    }
+
+    files.push(status);
+  }
+
+  return {
+    configId: lock.configId,
+    appliedVersion: lock.version,
+    currentVersion: resolvedConfig.version,
+    appliedAt: lock.appliedAt,
+    files,
+    drifted: files.some((f) => f.state !== "unchanged"),
+  };
+}
+
+/**
+ * Combine local and upstream state into an overall drift state
+ */
+function getDriftState(local: LocalFileState, upstream: UpstreamFileState): FileDriftState {
+  const localChanged = local !== "unchanged";
+  const upstreamChanged = upstream !== "unchanged";
+
+  if (localChanged && upstreamChanged) {
+    return "diverged";
+  }
+  if (localChanged) {
+    return "modified";
+  }
+  if (upstreamChanged) {
+    return "outdated";
+  }
+  return "unchanged";
+}
@@ -0,0 +1,93 @@
+/**
+ * Non-interactive conflict strategies
+ *
+ * Decides what happens to a conflicting file without prompting, from a default
+ * strategy and per-file rules. Rules files map glob patterns to strategies:
+ *
+ *   CLAUDE.md: merge
+ *   .claude/settings.json: theirs
+ *   "docs/**": ours
+ */
+
+import { readFile } from "fs/promises";
+import { parse as parseYaml } from "yaml";
+import type { ApplyOptions, StrategyRule } from "../config/types.js";
+import { CONFLICT_STRATEGIES, type ConflictStrategy } from "../constants.js";
+import { InvalidStrategyRulesError } from "../errors.js";
+
+/**
+ * Strategy for a conflicting file (undefined if the user must decide)
+ */
+export function getConflictStrategy(
+  filePath: string,
+  options: Pick<ApplyOptions, "strategy" | "strategyRules">
+): ConflictStrategy | undefined {
+  const rule = options.strategyRules?.find((r) => matchesPattern(filePath, r.pattern));
+  return rule?.strategy ?? options.strategy;
+}
+
+/**
+ * Load strategy rules from a YAML or JSON file mapping patterns to strategies
+ */
+export async function loadStrategyRules(rulesPath: string): Promise<StrategyRule[]> {
+  let parsed: unknown;
+
+  try {
+    parsed = parseYaml(await readFile(rulesPath, "utf-8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new InvalidStrategyRulesError(rulesPath, "file not found");
+    }
+    throw new InvalidStrategyRulesError(rulesPath, "not valid YAML or JSON");
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new InvalidStrategyRulesError(rulesPath, "expected a map of patterns to strategies");
+  }
+
+  return Object.entries(parsed).map(([pattern, strategy]) => {
+    if (!isConflictStrategy(strategy)) {
+      throw new InvalidStrategyRulesError(
+        rulesPath,
+        `invalid strategy "${String(strategy)}" for ${pattern}. Valid: ${CONFLICT_STRATEGIES.join(", ")}`
+      );
+    }
+    return { pattern, strategy };
+  });
+}
+
+/**
+ * Check if a value is a known conflict strategy
+ */
+export function isConflictStrategy(value: unknown): value is ConflictStrategy {
+  return CONFLICT_STRATEGIES.includes(value as ConflictStrategy);
+}
+
+/**
+ * Match a relative file path against a glob pattern
+ *
+ * `*` and `?` stay within a path segment, `**` spans segments. Patterns without
+ * a "/" are matched against the file name, so `CLAUDE.md` matches at any depth.
+ */
+export function matchesPattern(filePath: string, pattern: string): boolean {
+  const path = filePath.replace(/\\/g, "/");
+  const subject = pattern.includes("/") ? path : path.slice(path.lastIndexOf("/") + 1);
+
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      // "**/" also matches no directories at all
+      source += pattern[i + 2] === "/" ? "(?:.*/)?" : ".*";
+      i += pattern[i + 2] === "/" ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`).test(subject);
+}
@@ -0,0 +1,219 @@
+/**
+ * Unapply - remove what a configuration contributed to a project
+ *
+ * Files that still hold exactly the configuration's content are removed. Files
+ * that were merged keep their project content; only the sections and keys the
+ * configuration contributed are stripped. Contributions edited in the project are
+ * reported so the caller can refuse, prompt, or force their removal.
+ */
+
+import { rm } from "fs/promises";
+import type {
+  ApplyLock,
+  ApplyResult,
+  ConfigurationFile,
+  ResolvedConfiguration,
+} from "../config/types.js";
+import { writeFilesToProject } from "../config/writer.js";
+import { resolveSafePath } from "../config/path-safety.js";
+import { readProjectFile } from "./detector.js";
+import { unmergeContent } from "./merger.js";
+import { readBaseContent, removeLockfile } from "./lockfile.js";
+import { createBackup, discardBackup } from "./backup.js";
+import { withManagedRegions } from "./managed-regions.js";
+import { recordRollback } from "./index.js";
+
+/**
+ * Planned action for a single file
+ * - remove: holds only contributed content, deleted
+ * - strip: contributed sections or keys removed, project content kept
+ * - edited: contributed content was edited in the project
+ * - untouched: none of the contributed content is present
+ * - missing: file does not exist in the project
+ */
+export type UnapplyAction = "remove" | "strip" | "edited" | "untouched" | "missing";
+
+/**
+ * Unapply plan for a single file
+ */
+export interface UnapplyFilePlan {
+  /** File path relative to project */
+  path: string;
+  /** Planned action */
+  action: UnapplyAction;
+  /** Remaining content, keeping edited contributions (empty if nothing is left) */
+  content?: string;
+  /** Remaining content with edited contributions removed as well */
+  forcedContent?: string;
+  /** Contributed sections or keys edited in the project */
+  edited: string[];
+}
+
+/**
+ * Unapply plan for a project
+ */
+export interface UnapplyPlan {
+  /** Configuration ID */
+  configId: string;
+  /** Version being removed (as applied, if recorded) */
+  version: string;
+  /** Per-file plan */
+  files: UnapplyFilePlan[];
+  /** Whether any contributed content was edited in the project */
+  hasEdits: boolean;
+  /** Whether the project's lockfile records this configuration */
+  removesLock: boolean;
+}
+
+/**
+ * Result of executing an unapply
+ */
+export interface UnapplyResult extends ApplyResult {
+  /** Files removed from the project */
+  filesRemoved: string[];
+}
+
+/**
+ * Plan removing a resolved configuration from a project
+ *
+ * When the lockfile records this configuration, the content actually applied is
+ * used; otherwise the configuration as it resolves today.
+ */
+export async function planUnapply(
+  targetPath: string,
+  resolvedConfig: ResolvedConfiguration,
+  lock?: ApplyLock
+): Promise<UnapplyPlan> {
+  const locked = lock?.configId === resolvedConfig.id ? lock : undefined;
+  const contributed = new Map(
+    withManagedRegions(resolvedConfig).resolvedFiles.map((f) => [f.path, f.content])
+  );
+
+  // Prefer what was actually applied, including files dropped from the configuration since
+  const kept = new Set<string>();
+  for (const [path, entry] of Object.entries(locked?.files ?? {})) {
+    if (entry.kept) {
+      kept.add(path);
+      continue;
+    }
+    const baseContent = await readBaseContent(targetPath, entry.sourceHash);
+    if (baseContent !== undefined) {
+      contributed.set(path, baseContent);
+    }
+  }
+
+  const files: UnapplyFilePlan[] = [];
+
+  for (const [path, contributedContent] of [...contributed].sort(([a], [b]) =>
+    a.localeCompare(b)
+  )) {
+    const existingContent = await readProjectFile(targetPath, path);
+    const plan: UnapplyFilePlan = { path, action: "missing", edited: [] };
+
+    if (kept.has(path)) {
+      plan.action = existingContent === undefined ? "missing" : "untouched";
+    } else if (existingContent !== undefined) {
+      const result = unmergeContent(existingContent, contributedContent, path);
+      plan.content = result.content;
+      plan.edited = result.edited;
+
+      if (result.edited.length > 0) {
+        plan.action = "edited";
+        plan.forcedContent = unmergeContent(
+          existingContent,
+          contributedContent,
+          path,
+          true
+        ).content;
+      } else if (result.content === "") {
+        plan.action = "remove";
+      } else {
+        plan.action = result.content === existingContent ? "untouched" : "strip";
+      }
+    }
+
+    files.push(plan);
+  }
+
+  return {
+    configId: resolvedConfig.id,
+    version: locked?.version ?? resolvedConfig.version,
+    files,
+    hasEdits: files.some((f) => f.action === "edited"),
+    removesLock: locked !== undefined,
+  };
+}
+
+/**
+ * Execute an unapply plan
+ *
+ * Edited contributions are kept unless their file is listed in forcePaths.
+ */
+export async function executeUnapply(
+  plan: UnapplyPlan,
+  targetPath: string,
+  forcePaths: string[] = []
+): Promise<UnapplyResult> {
+  const result: UnapplyResult = {
+    success: false,
+    filesCreated: [],
+    filesModified: [],
+    filesSkipped: [],
+    filesRemoved: [],
+    conflicts: [],
+    errors: [],
+  };
+
+  const filesToWrite: ConfigurationFile[] = [];
+  const filesToRemove: string[] = [];
+
+  for (const file of plan.files) {
+    const content =
+      file.action === "edited" && forcePaths.includes(file.path)
+        ? file.forcedContent
+        : file.content;
+
+    if (file.action === "untouched" || file.action === "missing") {
+      result.filesSkipped.push(file.path);
+    } else if (content === "") {
+      filesToRemove.push(file.path);
+    } else if (content !== undefined) {
+      filesToWrite.push({ path: file.path, content, type: "text" });
+    }
+  }
+
+  if (filesToWrite.length > 0 || filesToRemove.length > 0) {
+    const backup = await createBackup(
+      targetPath,
+      { configId: plan.configId, version: plan.version },
+      [...filesToWrite.map((f) => f.path), ...filesToRemove]
+    );
+    result.backupId = backup.id;
+  }
+
+  if (filesToWrite.length > 0) {
+    const writeResult = await writeFilesToProject(filesToWrite, targetPath);
+    if (writeResult.errors.length > 0) {
+      await discardBackup(targetPath, result.backupId!);
+      return recordRollback(result, writeResult);
+    }
+    result.filesModified.push(...writeResult.created);
+  }
+
+  for (const path of filesToRemove) {
+    try {
+      await rm(resolveSafePath(targetPath, path), { force: true });
+      result.filesRemoved.push(path);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result.errors.push(`Failed to remove ${path}: ${message}`);
+    }
+  }
+
+  if (plan.removesLock && result.errors.length === 0) {
+    await removeLockfile(targetPath);
+  }
+
+  result.success = result.errors.length === 0;
+  return result;
+}
@@ -0,0 +1,369 @@
+/**
+ * Upgrade a project to a newer version of its applied configuration
+ *
+ * Plans each file against the lockfile: files still holding exactly what the
+ * configuration provided are fast-forwarded, anything else (local edits or content
+ * merged at apply time) is three-way merged with the originally applied content as base.
+ */
+
+import { rm } from "fs/promises";
+import type {
+  ApplyLock,
+  ApplyResult,
+  ConfigurationFile,
+  ConflictInfo,
+  MergeResult,
+  MergeRules,
+  ResolvedConfiguration,
+} from "../config/types.js";
+import { writeFilesToProject } from "../config/writer.js";
+import { resolveSafePath } from "../config/path-safety.js";
+import { readProjectFile } from "./detector.js";
+import { generateDiff, getDiffSummary } from "./differ.js";
+import { mergeContent, mergeThreeWay } from "./merger.js";
+import { recordRollback, withoutDirectives } from "./index.js";
+import { createBackup, discardBackup } from "./backup.js";
+import {
+  withManagedRegions,
+  findIgnoredDirectives,
+  IGNORED_DIRECTIVES_WARNING,
+} from "./managed-regions.js";
+import {
+  createLock,
+  recordFile,
+  hashContent,
+  readBaseContent,
+  writeBaseContent,
+  writeLockfile,
+} from "./lockfile.js";
+
+/**
+ * Planned action for a single file
+ * - create: new in the configuration, written as-is
+ * - update: holds the configuration's content, replaced with the new content
+ * - merge: has project content, merged cleanly with the new content
+ * - conflict: has project changes in the same places the configuration changed
+ * - remove: dropped from the configuration and holds only its content
+ * - keep: dropped from the configuration but has project content, or kept as the
+ *   project's own file on apply; left in place
+ * - skip: deleted locally, not restored
+ * - unchanged: configuration content has not changed
+ */
+export type UpgradeAction =
+  | "create"
+  | "update"
+  | "merge"
+  | "conflict"
+  | "remove"
+  | "keep"
+  | "skip"
+  | "unchanged";
+
+/**
+ * Upgrade plan for a single file
+ */
+export interface UpgradeFilePlan {
+  /** File path relative to project */
+  path: string;
+  /** Planned action */
+  action: UpgradeAction;
+  /** Content that will be written (with conflict markers for conflicts) */
+  content?: string;
+  /** Current project content */
+  existingContent?: string;
+  /** Content the new configuration resolves to */
+  newContent?: string;
+  /** Content originally applied (merge base) */
+  baseContent?: string;
+  /** Merge strategies for the file's JSON key paths */
+  merge?: MergeRules;
+  /** Problems resolved automatically while merging */
+  warnings?: string[];
+  /** Short summary of the change to the project file (e.g. "+3, -1") */
+  diffSummary?: string;
+}
+
+/**
+ * Upgrade plan for a project
+ */
+export interface UpgradePlan {
+  /** Configuration ID */
+  configId: string;
+  /** Version recorded in the lockfile */
+  fromVersion: string;
+  /** Version being upgraded to */
+  toVersion: string;
+  /** Per-file plan */
+  files: UpgradeFilePlan[];
+  /** Whether any file needs conflict resolution */
+  hasConflicts: boolean;
+  /** Whether the upgrade would change anything */
+  hasChanges: boolean;
+}
+
+/**
+ * Resolution chosen for a conflicting file
+ */
+export interface UpgradeResolution {
+  path: string;
+  resolution: "keep" | "replace" | "merge" | "skip";
+  content: string;
+}
+
+/**
+ * Result of executing an upgrade
+ */
+export interface UpgradeResult extends ApplyResult {
+  /** Files removed from the project */
+  filesRemoved: string[];
+}
+
+/**
+ * Plan an upgrade of a project to a resolved configuration
+ */
+export async function planUpgrade(
+  targetPath: string,
+  lock: ApplyLock,
+  resolvedConfig: ResolvedConfiguration
+): Promise<UpgradePlan> {
+  const files: UpgradeFilePlan[] = [];
+  const resolvedByPath = new Map(
+    withManagedRegions(resolvedConfig).resolvedFiles.map((f) => [f.path, f])
+  );
+  const paths = [...new Set([...Object.keys(lock.files), ...resolvedByPath.keys()])].sort();
+  const ignoredDirectives = findIgnoredDirectives(resolvedConfig);
+
+  for (const path of paths) {
+    const locked = lock.files[path];
+    const resolved = resolvedByPath.get(path);
+    const existingContent = await readProjectFile(targetPath, path);
+    const plan: UpgradeFilePlan = { path, action: "unchanged", existingContent };
+
+    if (locked?.kept) {
+      // The project's own file was kept on apply; it stays the project's
+      plan.newContent = resolved?.content;
+      plan.action = existingContent === undefined ? "skip" : "keep";
+    } else if (!resolved) {
+      // Dropped from the configuration
+      if (existingContent === undefined) {
+        plan.action = "skip";
+      } else {
+        plan.action = hashContent(existingContent) === locked.sourceHash ? "remove" : "keep";
+      }
+    } else {
+      plan.newContent = resolved.content;
+      plan.merge = resolved.merge;
+
+      if (!locked) {
+        // Added to the configuration
+        if (existingContent === undefined) {
+          plan.action = "create";
+          plan.content = withoutDirectives(resolved).content;
+        } else {
+          applyMergeResult(
+            plan,
+            mergeContent(existingContent, resolved.content, path, resolved.merge)
+          );
+        }
+      } else if (existingContent === undefined) {
+        plan.action = "skip";
+      } else if (hashContent(resolved.content) === locked.sourceHash) {
+        plan.action = "unchanged";
+      } else if (hashContent(existingContent) === locked.sourceHash) {
+        // Project holds exactly what the configuration provided
+        plan.action = "update";
+        plan.content = withoutDirectives(resolved).content;
+      } else {
+        plan.baseContent = await readBaseContent(targetPath, locked.sourceHash);
+        applyMergeResult(
+          plan,
+          plan.baseContent !== undefined
+            ? mergeThreeWay(
+                plan.baseContent,
+                existingContent,
+                resolved.content,
+                path,
+                resolved.merge
+              )
+            : mergeContent(existingContent, resolved.content, path, resolved.merge)
+        );
+      }
+    }
+
+    if (ignoredDirectives.includes(path) && plan.content !== undefined) {
+      plan.warnings = [...(plan.warnings ?? []), IGNORED_DIRECTIVES_WARNING];
+    }
+
+    if (plan.content !== undefined || plan.action === "remove") {
+      const diff = generateDiff(existingContent ?? "", plan.content ?? "", path);
+      plan.diffSummary = getDiffSummary(diff);
+    }
+
+    files.push(plan);
+  }
+
+  return {
+    configId: resolvedConfig.id,
+    fromVersion: lock.version,
+    toVersion: resolvedConfig.version,
+    files,
+    hasConflicts: files.some((f) => f.action === "conflict"),
+    hasChanges: files.some((f) => !["unchanged", "skip", "keep"].includes(f.action)),
+  };
+}
+
+/**
+ * Record a merge outcome on a file plan
+ */
+function applyMergeResult(plan: UpgradeFilePlan, mergeResult: MergeResult): void {
+  plan.action = mergeResult.hasConflicts ? "conflict" : "merge";
+  plan.content = mergeResult.content;
+  plan.warnings = mergeResult.warnings;
+}
+
+/**
+ * Get conflict information for the conflicting files in a plan
+ */
+export function getUpgradeConflicts(plan: UpgradePlan): ConflictInfo[] {
+  return plan.files
+    .filter((f) => f.action === "conflict")
+    .map((f) => ({
+      path: f.path,
+      existingContent: f.existingContent ?? "",
+      newContent: f.newContent ?? "",
+      baseContent: f.baseContent,
+      merge: f.merge,
+      mergedContent: f.content,
+    }));
+}
+
+/**
+ * Execute an upgrade plan, writing files and the new lockfile
+ *
+ * Conflicting files are only written when a resolution is supplied for them.
+ */
+export async function executeUpgrade(
+  plan: UpgradePlan,
+  targetPath: string,
+  resolvedConfig: ResolvedConfiguration,
+  previousLock: ApplyLock,
+  resolutions: UpgradeResolution[] = []
+): Promise<UpgradeResult> {
+  const result: UpgradeResult = {
+    success: false,
+    filesCreated: [],
+    filesModified: [],
+    filesSkipped: [],
+    filesRemoved: [],
+    conflicts: [],
+    errors: [],
+  };
+
+  const lock = createLock(resolvedConfig);
+  const filesToWrite: ConfigurationFile[] = [];
+  const filesToRemove: string[] = [];
+  const resolutionsByPath = new Map(resolutions.map((r) => [r.path, r]));
+
+  for (const file of plan.files) {
+    const previousEntry = previousLock.files[file.path];
+
+    switch (file.action) {
+      case "create":
+      case "update":
+      case "merge":
+        filesToWrite.push({ path: file.path, content: file.content!, type: "text" });
+        break;
+      case "conflict": {
+        const resolved = resolutionsByPath.get(file.path);
+        if (!resolved) {
+          result.conflicts.push(...getUpgradeConflicts({ ...plan, files: [file] }));
+        } else if (resolved.resolution === "replace" || resolved.resolution === "merge") {
+          filesToWrite.push({ path: file.path, content: resolved.content, type: "text" });
+        } else {
+          // Left as-is; keep the old lock entry so the file still shows as drifted
+          result.filesSkipped.push(file.path);
+          lock.files[file.path] = previousEntry;
+        }
+        break;
+      }
+      case "remove":
+        filesToRemove.push(file.path);
+        break;
+      case "keep":
+        result.filesSkipped.push(file.path);
+        if (previousEntry?.kept && file.newContent !== undefined) {
+          lock.files[file.path] = previousEntry;
+        }
+        break;
+      case "skip":
+        result.filesSkipped.push(file.path);
+        if (previousEntry && file.newContent !== undefined) {
+          lock.files[file.path] = previousEntry;
+        }
+        break;
+      case "unchanged":
+        if (previousEntry) {
+          lock.files[file.path] = previousEntry;
+        }
+        break;
+    }
+  }
+
+  if (result.conflicts.length > 0) {
+    return result;
+  }
+
+  if (filesToWrite.length > 0 || filesToRemove.length > 0) {
+    const backup = await createBackup(
+      targetPath,
+      { configId: resolvedConfig.id, version: resolvedConfig.version },
+      [...filesToWrite.map((f) => f.path), ...filesToRemove]
+    );
+    result.backupId = backup.id;
+  }
+
+  if (filesToWrite.length > 0) {
+    const writeResult = await writeFilesToProject(filesToWrite, targetPath);
+    if (writeResult.errors.length > 0) {
+      await discardBackup(targetPath, result.backupId!);
+      return recordRollback(result, writeResult);
+    }
+
+    for (const file of filesToWrite) {
+      if (!writeResult.created.includes(file.path)) {
+        continue;
+      }
+      const planned = plan.files.find((f) => f.path === file.path)!;
+      recordFile(lock, file.path, file.content, planned.newContent ?? file.content);
+
+      if (planned.action === "create") {
+        result.filesCreated.push(file.path);
+      } else {
+        result.filesModified.push(file.path);
+      }
+    }
+  }
+
+  // Remove dropped files only once everything else is in place
+  for (const path of filesToRemove) {
+    try {
+      await rm(resolveSafePath(targetPath, path), { force: true });
+      result.filesRemoved.push(path);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result.errors.push(`Failed to remove ${path}: ${message}`);
+    }
+  }
+
+  result.errors.push(
+    ...(await writeBaseContent(
+      targetPath,
+      withManagedRegions(resolvedConfig).resolvedFiles.map((f) => f.content)
+    ))
+  );
+  result.errors.push(...(await writeLockfile(targetPath, lock)));
+  result.lock = lock;
+  result.success = result.errors.length === 0;
+
+  return result;
+}
@@ -0,0 +1,165 @@
+/**
+ * JSON merge with per-path strategies
+ *
+ * Shared by inheritance resolution and project merges. Objects are merged key by
+ * key and arrays are unioned unless a strategy for the key path says otherwise.
+ * Strategies come from configuration metadata (`merge:` in config.yaml) or from
+ * inline `"$merge"` directives in the JSON itself.
+ */
+
+import type { MergeRules } from "./types.js";
+import { MERGE_STRATEGIES, type MergeStrategy } from "../constants.js";
+
+/**
+ * Key holding an inline merge directive
+ *
+ * `"$merge": "replace"` applies to the object it appears in;
+ * `"$merge": { "deny": "union" }` applies to keys below it.
+ */
+export const MERGE_DIRECTIVE = "$merge";
+
+/**
+ * Deep merge a source value into a target value following merge strategies
+ */
+export function mergeJsonValues(
+  target: unknown,
+  source: unknown,
+  rules: MergeRules = {},
+  keyPath = ""
+): unknown {
+  const strategy = getMergeStrategy(rules, keyPath);
+
+  if (source === undefined || (strategy === "keep" && target !== undefined)) {
+    return target;
+  }
+  if (strategy === "replace") {
+    return source;
+  }
+
+  if (isPlainObject(target) && isPlainObject(source)) {
+    const result: Record<string, unknown> = { ...target };
+    for (const key of Object.keys(source)) {
+      result[key] = mergeJsonValues(target[key], source[key], rules, joinKeyPath(keyPath, key));
+    }
+    return result;
+  }
+
+  if (Array.isArray(target) && Array.isArray(source)) {
+    switch (strategy) {
+      case "append":
+        return [...target, ...source];
+      case "prepend":
+        return [...source, ...target];
+      default: {
+        // Union - combine without duplicates
+        const result = [...target];
+        for (const item of source) {
+          if (!result.some((existing) => isDeepEqual(existing, item))) {
+            result.push(item);
+          }
+        }
+        return result;
+      }
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Remove inline merge directives from a parsed JSON value, returning them as rules
+ */
+export function extractMergeDirectives(value: unknown): { value: unknown; rules: MergeRules } {
+  const rules: MergeRules = {};
+  return { value: stripDirectives(value, "", rules), rules };
+}
+
+/**
+ * Strategy for a key path (exact rules win over wildcard rules)
+ */
+export function getMergeStrategy(rules: MergeRules, keyPath: string): MergeStrategy | undefined {
+  if (rules[keyPath]) {
+    return rules[keyPath];
+  }
+
+  const segments = keyPath.split(".");
+  for (const [pattern, strategy] of Object.entries(rules)) {
+    const patternSegments = pattern.split(".");
+    if (
+      patternSegments.length === segments.length &&
+      patternSegments.every((segment, i) => segment === "*" || segment === segments[i])
+    ) {
+      return strategy;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check if a value is a known merge strategy
+ */
+export function isMergeStrategy(value: unknown): value is MergeStrategy {
+  return MERGE_STRATEGIES.includes(value as MergeStrategy);
+}
+
+/**
+ * Check if value is a plain object
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Structural equality for parsed JSON values
+ */
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isDeepEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => key in b && isDeepEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+/**
+ * Copy a value without merge directives, recording them under their key paths
+ */
+function stripDirectives(value: unknown, keyPath: string, rules: MergeRules): unknown {
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+
+  for (const [key, child] of Object.entries(value)) {
+    if (key !== MERGE_DIRECTIVE) {
+      result[key] = stripDirectives(child, joinKeyPath(keyPath, key), rules);
+    } else if (isMergeStrategy(child)) {
+      rules[keyPath] = child;
+    } else if (isPlainObject(child)) {
+      for (const [relativePath, strategy] of Object.entries(child)) {
+        if (isMergeStrategy(strategy)) {
+          rules[joinKeyPath(keyPath, relativePath)] = strategy;
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Append a key to a dot-separated key path
+ */
+export function joinKeyPath(keyPath: string, key: string): string {
+  return keyPath ? `${keyPath}.${key}` : key;
+}
@@ -5,7 +5,13 @@
 import { readFile, readdir, stat } from "fs/promises";
 import { join, basename } from "path";
 import { parse as parseYaml } from "yaml";
-import type { Configuration, ConfigurationFile, ConfigurationMetadata } from "./types.js";
+import type {
+  Configuration,
+  ConfigurationFile,
+  ConfigurationFileOptions,
+  ConfigurationMetadata,
+  MergeRules,
+} from "./types.js";
 import type { ProjectType, TestingApproach } from "../constants.js";
 import { CONFIG_FILENAME, getFileType } from "../constants.js";
 import { ConfigNotFoundError, InvalidConfigError, FileNotFoundError } from "../errors.js";
@@ -35,7 +41,12 @@ export async function loadConfiguration(configPath: string): Promise<Configurati
   const metadata = await loadMetadata(metadataPath, configId);
 
   // Load file contents
-  const fileContents = await loadConfigFiles(configPath, metadata.files, configId);
+  const fileContents = await loadConfigFiles(
+    configPath,
+    metadata.files,
+    configId,
+    metadata.fileOptions
+  );
 
   return {
     ...metadata,
@@ -70,6 +81,8 @@ export async function loadMetadata(
     throw new InvalidConfigError(configId, `Invalid YAML in ${CONFIG_FILENAME}`);
   }
 
+  const { files, fileOptions } = parseFileEntries(parsed.files, configId);
+
   // Transform dates from strings
   const created = parsed.created ? new Date(parsed.created as string) : new Date();
   const updated = parsed.updated ? new Date(parsed.updated as string) : new Date();
@@ -79,29 +92,77 @@ export async function loadMetadata(
     name: (parsed.name as string) || configId,
     description: (parsed.description as string) || "",
     version: (parsed.version as string) || "1.0.0",
-    extends: parsed.extends as string | undefined,
+    extends: parsed.extends as string | string[] | undefined,
     projectTypes: (parsed.projectTypes as ProjectType[]) || [],
     languages: (parsed.languages as string[]) || [],
     tags: (parsed.tags as string[]) || [],
     testingApproach: parsed.testingApproach as TestingApproach | undefined,
     created,
     updated,
-    files: (parsed.files as string[]) || [],
+    files,
+    ...(Object.keys(fileOptions).length > 0 && { fileOptions }),
+    merge: parsed.merge as Record<string, MergeRules> | undefined,
+    ...(typeof parsed.forkedFrom === "string" && { forkedFrom: parsed.forkedFrom }),
   };
 }
 
+/**
+ * Split `files` entries (paths or objects with a path and options) into paths and options
+ */
+function parseFileEntries(
+  entries: unknown,
+  configId: string
+): { files: string[]; fileOptions: Record<string, ConfigurationFileOptions> } {
+  const files: string[] = [];
+  const fileOptions: Record<string, ConfigurationFileOptions> = {};
+
+  for (const entry of Array.isArray(entries) ? entries : []) {
+    if (typeof entry === "string") {
+      files.push(entry);
+      continue;
+    }
+
+    const { path, override, exclude, merge, target } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof path !== "string") {
+      throw new InvalidConfigError(configId, `File entry without a path in ${CONFIG_FILENAME}`);
+    }
+
+    const options: ConfigurationFileOptions = {
+      ...(override !== undefined && { override: override === true }),
+      ...(exclude !== undefined && { exclude: exclude === true }),
+      ...(merge !== undefined && { merge: merge as MergeRules }),
+      ...(target !== undefined && { target: String(target) }),
+    };
+    files.push(path);
+    if (Object.keys(options).length > 0) {
+      fileOptions[path] = options;
+    }
+  }
+
+  return { files, fileOptions };
+}
+
 /**
  * Load configuration file contents
+ *
+ * Excluded files only remove a parent's file, so they are not read from disk.
  */
 async function loadConfigFiles(
   configPath: string,
   filePaths: string[],
-  configId: string
+  configId: string,
+  fileOptions: Record<string, ConfigurationFileOptions> = {}
 ): Promise<ConfigurationFile[]> {
   const files: ConfigurationFile[] = [];
 
   for (const filePath of filePaths) {
     const fullPath = resolveSafePath(configPath, filePath);
+    const options = fileOptions[filePath] ?? {};
+
+    if (options.exclude) {
+      files.push({ path: filePath, content: "", type: getFileType(filePath), ...options });
+      continue;
+    }
 
     try {
       const content = await readFile(fullPath, "utf-8");
@@ -109,6 +170,7 @@ async function loadConfigFiles(
         path: filePath,
         content,
         type: getFileType(filePath),
+        ...options,
       });
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code === "ENOENT") {
@@ -0,0 +1,214 @@
+/**
+ * Markdown section directives
+ *
+ * A heading can carry directives that say how it combines with the section of
+ * the same name in the content it is merged onto (a parent configuration, or
+ * the project's file on apply):
+ *
+ *   ## Code Guidelines <!-- cpm:append -->       add the body after the existing one
+ *   ## Setup <!-- cpm:prepend -->                add the body before the existing one
+ *   ## Legacy <!-- cpm:remove -->                delete the existing section
+ *   ## Testing <!-- cpm:after "Architecture" --> place the section after another
+ *   ## Overview <!-- cpm:before "Setup" -->      place the section before another
+ *
+ * Sections without directives keep the usual merge behaviour.
+ */
+
+import {
+  parseMarkdown,
+  renderMarkdown,
+  mergeMarkdownTrees,
+  slugify,
+  type MarkdownSection,
+} from "./markdown.js";
+
+const DIRECTIVE_PATTERN =
+  /[ \t]*<!--\s*cpm:(append|prepend|remove|after|before)(?:\s+"([^"]*)")?\s*-->/g;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s/;
+
+/**
+ * Directives parsed from a section heading
+ */
+export interface SectionDirectives {
+  /** How the body combines with the existing section's body */
+  body?: "append" | "prepend";
+  /** Delete the existing section */
+  remove?: boolean;
+  /** Place the section next to a sibling section */
+  position?: { where: "after" | "before"; heading: string };
+}
+
+/**
+ * Check if markdown content has any section directives
+ */
+export function hasMarkdownDirectives(content: string): boolean {
+  return content.search(DIRECTIVE_PATTERN) !== -1;
+}
+
+/**
+ * Split a heading line into the heading without directives and its directives
+ */
+export function parseSectionDirectives(heading: string): {
+  heading: string;
+  directives: SectionDirectives;
+} {
+  const directives: SectionDirectives = {};
+
+  for (const match of heading.matchAll(DIRECTIVE_PATTERN)) {
+    const [, name, argument] = match;
+    if (name === "append" || name === "prepend") {
+      directives.body = name;
+    } else if (name === "remove") {
+      directives.remove = true;
+    } else if (argument !== undefined) {
+      directives.position = { where: name as "after" | "before", heading: argument };
+    }
+  }
+
+  return { heading: heading.replace(DIRECTIVE_PATTERN, ""), directives };
+}
+
+/**
+ * Merge markdown content carrying directives onto base content
+ *
+ * Sections of `content` are matched with sections of `base` by heading and
+ * combined by their directives; sections without directives are combined by
+ * mergeBody. Directives that find no section to act on are kept in the output
+ * when keepUnmatched is set (so a later merge can use them) and dropped
+ * otherwise, along with sections marked for removal.
+ */
+export function mergeWithDirectives(
+  base: string,
+  content: string,
+  mergeBody: (base: MarkdownSection, section: MarkdownSection) => string[],
+  keepUnmatched = false
+): MarkdownSection {
+  const baseRoot = parseMarkdown(base);
+  const root = parseMarkdown(content);
+  const bodyDirectives = new Map<MarkdownSection, "append" | "prepend">();
+
+  prepareSiblings(baseRoot.children, root, bodyDirectives, keepUnmatched);
+
+  return mergeMarkdownTrees(baseRoot, root, (existing, section) => {
+    const directive = bodyDirectives.get(section);
+    return directive
+      ? addToBody(existing.body, section.body, directive)
+      : mergeBody(existing, section);
+  });
+}
+
+/**
+ * Remove directives from markdown, dropping sections marked for removal
+ */
+export function stripMarkdownDirectives(content: string): string {
+  if (!hasMarkdownDirectives(content)) {
+    return content;
+  }
+  return renderMarkdown(mergeWithDirectives("", content, (_base, section) => section.body));
+}
+
+/**
+ * Apply removals and positions among sibling sections before they are merged
+ *
+ * A section is matched by slug among the base siblings or, like in
+ * mergeMarkdownTrees, with the nearest nested section of that slug. Mutates
+ * both trees: removed sections are taken out, positioned sections are moved
+ * (or placeholders inserted) in the base, and directive comments are stripped
+ * from headings that were acted on.
+ */
+function prepareSiblings(
+  baseSiblings: MarkdownSection[],
+  parent: MarkdownSection,
+  bodyDirectives: Map<MarkdownSection, "append" | "prepend">,
+  keepUnmatched: boolean
+): void {
+  for (const section of [...parent.children]) {
+    const { heading, directives } = parseSectionDirectives(section.heading);
+    let siblings = siblingsWith(baseSiblings, section.slug) ?? baseSiblings;
+    let index = siblings.findIndex((s) => s.slug === section.slug);
+    const matched = index === -1 ? undefined : siblings[index];
+
+    if (directives.remove) {
+      if (matched) {
+        siblings.splice(index, 1);
+      }
+      if (matched || !keepUnmatched) {
+        parent.children.splice(parent.children.indexOf(section), 1);
+      }
+      continue;
+    }
+
+    if (directives.position) {
+      const target = slugify(directives.position.heading);
+      if (!matched) {
+        siblings = siblingsWith(baseSiblings, target) ?? baseSiblings;
+      }
+      const targetIndex = siblings.findIndex((s, i) => s.slug === target && i !== index);
+
+      if (targetIndex !== -1) {
+        const moved = matched ?? { ...section, heading, body: [], children: [] };
+        if (matched) {
+          siblings.splice(index, 1);
+        }
+        const at = siblings.findIndex((s) => s.slug === target);
+        siblings.splice(directives.position.where === "after" ? at + 1 : at, 0, moved);
+        index = siblings.indexOf(moved);
+      }
+    }
+
+    // Unmatched sections keep their directives for a later merge if asked to
+    const placed = index !== -1;
+    if (placed || !keepUnmatched) {
+      section.heading = heading;
+      if (placed && directives.body) {
+        bodyDirectives.set(section, directives.body);
+      }
+      prepareSiblings(matched?.children ?? [], section, bodyDirectives, keepUnmatched);
+    }
+  }
+}
+
+/**
+ * The sibling list holding a section of the given slug: the siblings themselves,
+ * or the children of the section holding the nearest nested one
+ */
+function siblingsWith(siblings: MarkdownSection[], slug: string): MarkdownSection[] | undefined {
+  let level = [siblings];
+  while (level.length > 0) {
+    const found = level.find((list) => list.some((s) => s.slug === slug));
+    if (found) {
+      return found;
+    }
+    level = level.flatMap((list) => list.map((s) => s.children));
+  }
+  return undefined;
+}
+
+/**
+ * Add lines to a section body (unchanged if they are already there)
+ */
+function addToBody(existing: string[], added: string[], where: "append" | "prepend"): string[] {
+  const addedText = added.join("\n").trim();
+  if (addedText === "" || existing.join("\n").includes(addedText)) {
+    return existing;
+  }
+  return where === "append" ? joinBodies(existing, added) : joinBodies(added, existing);
+}
+
+/**
+ * Join two bodies; list items continue the list, other content is separated by a blank line
+ */
+function joinBodies(first: string[], second: string[]): string[] {
+  const kept = [...first];
+  while (kept.length > 0 && kept[kept.length - 1].trim() === "") {
+    kept.pop();
+  }
+  const start = second.findIndex((line) => line.trim() !== "");
+  if (kept.length === 0 || start === -1) {
+    return kept.length === 0 ? second : first;
+  }
+
+  const continuesList =
+    LIST_ITEM_PATTERN.test(kept[kept.length - 1]) && LIST_ITEM_PATTERN.test(second[start]);
+  return [...kept, ...(continuesList ? [] : [""]), ...second.slice(start)];
+}
@@ -0,0 +1,297 @@
+/**
+ * Markdown heading tree
+ *
+ * Parses markdown into a hierarchy of sections by ATX heading (`#` to `######`),
+ * ignoring heading-like lines inside fenced code blocks. Sections are matched by
+ * normalised slug so merges keep nesting and order, falling back to a nested
+ * section of the same slug when headings sit at different levels.
+ */
+
+/**
+ * A markdown section: a heading, its body and its subsections
+ */
+export interface MarkdownSection {
+  /** Heading line as written (empty for the document root) */
+  heading: string;
+  /** Heading level (0 for the document root) */
+  level: number;
+  /** Normalised heading text used for matching */
+  slug: string;
+  /** Lines between the heading and the first subsection */
+  body: string[];
+  /** Subsections in document order */
+  children: MarkdownSection[];
+}
+
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+
+/**
+ * Parse markdown into a heading tree rooted at a level-0 section
+ */
+export function parseMarkdown(content: string): MarkdownSection {
+  const root: MarkdownSection = { heading: "", level: 0, slug: "", body: [], children: [] };
+  const stack: MarkdownSection[] = [root];
+  let fence: string | undefined;
+
+  for (const line of content.split("\n")) {
+    const current = stack[stack.length - 1];
+
+    // Track fenced code blocks - nothing inside them is a heading
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = undefined;
+      }
+      current.body.push(line);
+      continue;
+    }
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      current.body.push(line);
+      continue;
+    }
+
+    const headingMatch = line.match(HEADING_PATTERN);
+    if (!headingMatch) {
+      current.body.push(line);
+      continue;
+    }
+
+    const level = headingMatch[1].length;
+    const section: MarkdownSection = {
+      heading: line,
+      level,
+      slug: slugify(headingMatch[2] ?? ""),
+      body: [],
+      children: [],
+    };
+
+    // Close sections at the same or a deeper level
+    while (stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+    stack[stack.length - 1].children.push(section);
+    stack.push(section);
+  }
+
+  return root;
+}
+
+/**
+ * Render a heading tree back to markdown
+ */
+export function renderMarkdown(root: MarkdownSection): string {
+  const lines: string[] = [];
+  let afterHeading = false;
+
+  const render = (section: MarkdownSection): void => {
+    if (section.heading) {
+      // Keep sections apart when merging moved them next to each other
+      if (lines.length > 0 && !afterHeading && lines[lines.length - 1].trim() !== "") {
+        lines.push("");
+      }
+      lines.push(section.heading);
+      afterHeading = true;
+    }
+    if (section.body.length > 0) {
+      lines.push(...section.body);
+      afterHeading = false;
+    }
+    section.children.forEach(render);
+  };
+
+  render(root);
+  return lines.join("\n");
+}
+
+/**
+ * Normalise heading text for matching (case, punctuation, spacing and HTML comment insensitive)
+ */
+export function slugify(text: string): string {
+  return text
+    .replace(/<!--.*?-->/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, "")
+    .trim()
+    .replace(/[\s-]+/g, "-");
+}
+
+/**
+ * Section body as a string
+ */
+export function sectionBody(section: MarkdownSection): string {
+  return section.body.join("\n");
+}
+
+/**
+ * Whether two section bodies hold the same text (ignoring surrounding blank lines)
+ */
+export function sameBody(a: string | undefined, b: string | undefined): boolean {
+  return a === b || (a !== undefined && b !== undefined && a.trim() === b.trim());
+}
+
+/**
+ * Display name of a section (its heading, or a label for the document root)
+ */
+export function sectionName(section: MarkdownSection): string {
+  return section.heading.trim() || "(top-level content)";
+}
+
+/**
+ * Sibling sections from two documents paired by slug
+ */
+export interface SectionMatch {
+  /** Matching key (slug plus occurrence among siblings) */
+  key: string;
+  ours?: MarkdownSection;
+  theirs?: MarkdownSection;
+}
+
+/**
+ * Pair up sibling sections from two documents by slug
+ *
+ * Repeated headings are matched by occurrence. The result follows the order of
+ * `ours`; sections only in `theirs` are placed after the matched section that
+ * precedes them there (or before the first matched section that follows them).
+ */
+export function matchSections(ours: MarkdownSection[], theirs: MarkdownSection[]): SectionMatch[] {
+  const ourKeys = sectionKeys(ours);
+  const theirKeys = sectionKeys(theirs);
+  const ourIndex = new Map(ourKeys.map((key, i) => [key, i]));
+  const theirByKey = new Map(theirKeys.map((key, i) => [key, theirs[i]]));
+
+  // Sections only in theirs, by the index of ours they follow (-1 = before the first)
+  const inserts = new Map<number, SectionMatch[]>();
+  const insertAfter = (index: number, matches: SectionMatch[]): void => {
+    inserts.set(index, [...(inserts.get(index) ?? []), ...matches]);
+  };
+  const pending: SectionMatch[] = [];
+  let anchor: number | undefined;
+
+  theirs.forEach((section, i) => {
+    const key = theirKeys[i];
+    const match = ourIndex.get(key);
+
+    if (match === undefined) {
+      if (anchor === undefined) {
+        pending.push({ key, theirs: section });
+      } else {
+        insertAfter(anchor, [{ key, theirs: section }]);
+      }
+      return;
+    }
+
+    if (anchor === undefined) {
+      insertAfter(match - 1, pending.splice(0));
+    }
+    anchor = match;
+  });
+
+  const result: SectionMatch[] = [...(inserts.get(-1) ?? [])];
+  ours.forEach((section, i) => {
+    result.push({ key: ourKeys[i], ours: section, theirs: theirByKey.get(ourKeys[i]) });
+    result.push(...(inserts.get(i) ?? []));
+  });
+
+  // Nothing matched - new sections go to the end
+  result.push(...pending);
+
+  return result;
+}
+
+/**
+ * Index sibling sections by matching key
+ */
+export function sectionsByKey(sections: MarkdownSection[]): Map<string, MarkdownSection> {
+  const keys = sectionKeys(sections);
+  return new Map(keys.map((key, i) => [key, sections[i]]));
+}
+
+/**
+ * Merge two heading trees, matching sections by slug
+ *
+ * Bodies of matched sections are combined by mergeBody; sections present on
+ * only one side are kept. A section of `theirs` with no sibling of the same
+ * slug is matched with the nearest nested section of that slug in `ours`
+ * instead (e.g. a top-level `## Testing` with `# Project` > `## Testing`).
+ */
+export function mergeMarkdownTrees(
+  ours: MarkdownSection,
+  theirs: MarkdownSection,
+  mergeBody: (ours: MarkdownSection, theirs: MarkdownSection) => string[]
+): MarkdownSection {
+  // Nested sections of ours, by the section of theirs merged into them
+  const nested = new Map<MarkdownSection, MarkdownSection>();
+
+  const merge = (o: MarkdownSection, t: MarkdownSection): MarkdownSection => {
+    const siblings = t.children.filter((section) => {
+      if (o.children.some((s) => s.slug === section.slug)) {
+        return true;
+      }
+      const target = findNestedSection(o.children, section.slug);
+      if (!target || nested.has(target)) {
+        return true;
+      }
+      nested.set(target, section);
+      return false;
+    });
+
+    return {
+      ...o,
+      body: mergeBody(o, t),
+      children: matchSections(o.children, siblings).map((match) =>
+        match.ours
+          ? match.theirs
+            ? merge(visit(match.ours), match.theirs)
+            : visit(match.ours)
+          : match.theirs!
+      ),
+    };
+  };
+
+  // Merge sections of theirs matched at a higher level into their nested counterpart
+  const visit = (section: MarkdownSection): MarkdownSection => {
+    const match = nested.get(section);
+    if (match) {
+      nested.delete(section);
+      return merge(section, match);
+    }
+    const children = section.children.map(visit);
+    return children.every((child, i) => child === section.children[i])
+      ? section
+      : { ...section, children };
+  };
+
+  return merge(ours, theirs);
+}
+
+/**
+ * Find the shallowest section with a slug below the given sections (not among them)
+ */
+export function findNestedSection(
+  sections: MarkdownSection[],
+  slug: string
+): MarkdownSection | undefined {
+  let level = sections.flatMap((section) => section.children);
+  while (level.length > 0) {
+    const found = level.find((section) => section.slug === slug);
+    if (found) {
+      return found;
+    }
+    level = level.flatMap((section) => section.children);
+  }
+  return undefined;
+}
+
+/**
+ * Matching keys for sibling sections (slug plus occurrence)
+ */
+function sectionKeys(sections: MarkdownSection[]): string[] {
+  const seen = new Map<string, number>();
+  return sections.map((section) => {
+    const count = seen.get(section.slug) ?? 0;
+    seen.set(section.slug, count + 1);
+    return `${section.slug}#${count}`;
+  });
+}
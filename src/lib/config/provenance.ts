@@ -0,0 +1,121 @@
+/**
+ * Provenance of resolved configuration files
+ *
+ * Tracks which configuration contributed each markdown section and JSON/YAML
+ * key path while an inheritance chain is merged. Each merge step is traced by
+ * comparing the file before and after it: keys that appear are added, keys
+ * whose value now equals the contributed value are overridden, and keys whose
+ * value combines both sides (an appended section, a unioned array) are merged.
+ */
+
+import { parse as parseYaml } from "yaml";
+import type { ConfigurationFile, ProvenanceEntry } from "./types.js";
+import { isPlainObject, joinKeyPath } from "./json-merge.js";
+import { parseMarkdown, type MarkdownSection } from "./markdown.js";
+import { parseSectionDirectives } from "./markdown-directives.js";
+
+/**
+ * Trace one merge step of a file
+ *
+ * `previous` is the provenance of `before` (undefined if the file is new).
+ * `origins` is the contributed file's own provenance, when it was itself
+ * resolved (a layer); otherwise everything it changes is attributed to source.
+ * A replaced file is attributed to source entirely.
+ */
+export function traceProvenance(
+  source: string,
+  before: ConfigurationFile | undefined,
+  previous: ProvenanceEntry[] | undefined,
+  contributed: ConfigurationFile,
+  after: ConfigurationFile,
+  origins?: ProvenanceEntry[],
+  replaced = false
+): ProvenanceEntry[] {
+  const beforeValues = before ? valuesByKey(before) : new Map<string, string>();
+  const contributedValues = valuesByKey(contributed);
+  const previousByKey = new Map(previous?.map((entry) => [entry.key, entry]));
+  const originByKey = new Map(origins?.map((entry) => [entry.key, entry]));
+
+  return [...valuesByKey(after)].map(([key, value]): ProvenanceEntry => {
+    const origin = originByKey.get(key);
+
+    if (!beforeValues.has(key)) {
+      return origin ?? { key, source, action: "added" };
+    }
+    if (!replaced && beforeValues.get(key) === value && previousByKey.has(key)) {
+      return previousByKey.get(key)!;
+    }
+    return {
+      key,
+      source: origin?.source ?? source,
+      action: replaced || contributedValues.get(key) === value ? "overridden" : "merged",
+    };
+  });
+}
+
+/**
+ * Trackable values of a file by key: sections for markdown, leaf key paths for
+ * JSON and YAML, and the whole content otherwise
+ */
+function valuesByKey(file: ConfigurationFile): Map<string, string> {
+  const values = new Map<string, string>();
+
+  switch (file.type) {
+    case "markdown":
+      addSections(parseMarkdown(file.content), "", values);
+      break;
+    case "json":
+    case "yaml":
+      try {
+        const parsed = file.type === "json" ? JSON.parse(file.content) : parseYaml(file.content);
+        addKeyPaths(parsed, "", values);
+      } catch {
+        // Unparseable content is tracked as a whole
+        values.set("", file.content);
+      }
+      break;
+    default:
+      values.set("", file.content);
+  }
+
+  return values;
+}
+
+/**
+ * Add each section body under its heading path
+ */
+function addSections(section: MarkdownSection, path: string, values: Map<string, string>): void {
+  if (section.heading === "") {
+    if (section.body.some((line) => line.trim())) {
+      values.set("", section.body.join("\n").trim());
+    }
+  } else {
+    values.set(path, section.body.join("\n").trim());
+  }
+
+  for (const child of section.children) {
+    const name = parseSectionDirectives(child.heading)
+      .heading.replace(/^\s*#+\s*/, "")
+      .trim();
+    const base = path ? `${path} > ${name}` : name;
+    let key = base;
+    // Repeated headings are told apart by occurrence
+    for (let count = 2; values.has(key); count++) {
+      key = `${base} (${count})`;
+    }
+    addSections(child, key, values);
+  }
+}
+
+/**
+ * Add each leaf value (scalars, arrays and empty objects) under its key path
+ */
+function addKeyPaths(value: unknown, keyPath: string, values: Map<string, string>): void {
+  if (isPlainObject(value) && Object.keys(value).length > 0) {
+    for (const [key, child] of Object.entries(value)) {
+      addKeyPaths(child, joinKeyPath(keyPath, key), values);
+    }
+    return;
+  }
+  values.set(keyPath, JSON.stringify(value));
+}
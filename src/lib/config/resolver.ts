@@ -4,80 +4,288 @@
  * Resolves inheritance chains and merges configurations with parent settings.
  */
 
-import type { Configuration, ConfigurationFile, ResolvedConfiguration, FileType } from "./types.js";
-import { InheritanceCycleError, ParentNotFoundError } from "../errors.js";
+import type {
+  Configuration,
+  ConfigurationFile,
+  ResolvedConfiguration,
+  FileType,
+  FileProvenance,
+  MergeRules,
+} from "./types.js";
+import {
+  InheritanceCycleError,
+  InheritanceOrderError,
+  ParentNotFoundError,
+  ParentVersionMismatchError,
+} from "../errors.js";
+import { satisfies } from "./semver.js";
+import { mergeYamlContent } from "./yaml-merge.js";
+import { mergeJsonValues, extractMergeDirectives, MERGE_DIRECTIVE } from "./json-merge.js";
+import { renderMarkdown } from "./markdown.js";
+import { mergeWithDirectives } from "./markdown-directives.js";
+import { traceProvenance } from "./provenance.js";
+
+/**
+ * Load a parent configuration by ID, preferring a version in range when given
+ */
+export type ParentLoader = (id: string, range?: string) => Promise<Configuration | undefined>;
+
+/**
+ * A parent reference from `extends` ("typescript-base" or "typescript-base@^1.2")
+ */
+export interface ParentRef {
+  id: string;
+  /** Semver range the parent's version must satisfy */
+  range?: string;
+}
 
 /**
  * Resolve a configuration's inheritance chain
+ *
+ * Parents are linearized C3-style (as in Python's method resolution order), so
+ * a configuration always comes before its parents and shared ancestors in a
+ * diamond appear once. Parents listed later in `extends` take precedence over
+ * earlier ones, the way later layers do in `cpm apply`.
  */
 export async function resolveInheritance(
   config: Configuration,
-  getConfig: (id: string) => Promise<Configuration | undefined>
+  getConfig: ParentLoader
 ): Promise<ResolvedConfiguration> {
-  const inheritanceChain: string[] = [];
-  const configs: Configuration[] = [];
-
-  // Build inheritance chain (child to root)
-  let current: Configuration | undefined = config;
-  const seen = new Set<string>();
-
-  while (current) {
-    if (seen.has(current.id)) {
-      // Cycle detected
-      inheritanceChain.push(current.id);
-      throw new InheritanceCycleError(inheritanceChain);
+  const configs = await linearize(config, getConfig, [], new Map());
+
+  // Merge configurations (root to child)
+  const { files: resolvedFiles, provenance } = mergeConfigurationChain([...configs].reverse());
+
+  return {
+    ...inheritMetadata(configs),
+    resolvedFiles,
+    inheritanceChain: configs.map((c) => c.id),
+    provenance,
+  };
+}
+
+/**
+ * Resolve a configuration's metadata without merging files
+ *
+ * Languages, project types, tags and testing approach the configuration does
+ * not declare are taken from the nearest parent in the linearized chain that
+ * does.
+ */
+export async function resolveMetadata(
+  config: Configuration,
+  getConfig: ParentLoader
+): Promise<Configuration> {
+  return inheritMetadata(await linearize(config, getConfig, [], new Map()));
+}
+
+/**
+ * Parent references, whether `extends` is a single reference or a list
+ */
+export function getParentRefs(config: Pick<Configuration, "extends">): ParentRef[] {
+  if (!config.extends) {
+    return [];
+  }
+  const refs = Array.isArray(config.extends) ? config.extends : [config.extends];
+  return refs.map((ref) => {
+    const at = ref.indexOf("@");
+    return at === -1 ? { id: ref } : { id: ref.slice(0, at), range: ref.slice(at + 1) };
+  });
+}
+
+/**
+ * Format a parent reference for `extends`
+ */
+export function formatParentRef(ref: ParentRef): string {
+  return ref.range ? `${ref.id}@${ref.range}` : ref.id;
+}
+
+/**
+ * Parent configuration IDs (without version ranges)
+ */
+export function getParentIds(config: Pick<Configuration, "extends">): string[] {
+  return getParentRefs(config).map((ref) => ref.id);
+}
+
+/**
+ * Fill in metadata a configuration leaves undeclared from its linearized chain
+ */
+function inheritMetadata(configs: Configuration[]): Configuration {
+  const [config] = configs;
+  const inherit = <K extends "languages" | "projectTypes" | "tags" | "testingApproach">(
+    key: K
+  ): Configuration[K] => {
+    const declared = configs.find((c) => {
+      const value = c[key];
+      return Array.isArray(value) ? value.length > 0 : value !== undefined;
+    });
+    return declared ? declared[key] : config[key];
+  };
+
+  return {
+    ...config,
+    languages: inherit("languages"),
+    projectTypes: inherit("projectTypes"),
+    tags: inherit("tags"),
+    testingApproach: inherit("testingApproach"),
+  };
+}
+
+/**
+ * C3 linearization of a configuration and its ancestors (most specific first)
+ */
+async function linearize(
+  config: Configuration,
+  getConfig: ParentLoader,
+  path: string[],
+  cache: Map<string, Configuration[]>
+): Promise<Configuration[]> {
+  if (path.includes(config.id)) {
+    throw new InheritanceCycleError([...path, config.id]);
+  }
+
+  const cached = cache.get(config.id);
+  if (cached) {
+    return cached;
+  }
+
+  // Highest precedence first: the last listed parent wins
+  const parents: Configuration[] = [];
+  for (const { id, range } of getParentRefs(config).reverse()) {
+    const parent = await getConfig(id, range);
+    if (!parent) {
+      throw new ParentNotFoundError(config.id, id);
     }
+    if (range && !satisfies(parent.version, range)) {
+      throw new ParentVersionMismatchError(config.id, id, range, parent.version);
+    }
+    parents.push(parent);
+  }
 
-    seen.add(current.id);
-    inheritanceChain.push(current.id);
-    configs.push(current);
+  const sequences: Configuration[][] = [];
+  for (const parent of parents) {
+    sequences.push([...(await linearize(parent, getConfig, [...path, config.id], cache))]);
+  }
+  sequences.push([...parents]);
+
+  // Repeatedly take the first head that is not in the tail of any sequence
+  const linearization = [config];
+  while (sequences.some((sequence) => sequence.length > 0)) {
+    const next = sequences
+      .map((sequence) => sequence[0])
+      .find(
+        (head) =>
+          head !== undefined &&
+          !sequences.some((sequence) => sequence.slice(1).some((c) => c.id === head.id))
+      );
+
+    if (!next) {
+      const heads = sequences.filter((sequence) => sequence.length > 0).map((s) => s[0].id);
+      throw new InheritanceOrderError(config.id, [...new Set(heads)]);
+    }
 
-    if (current.extends) {
-      const parent = await getConfig(current.extends);
-      if (!parent) {
-        throw new ParentNotFoundError(current.id, current.extends);
+    linearization.push(next);
+    for (const sequence of sequences) {
+      if (sequence[0]?.id === next.id) {
+        sequence.shift();
       }
-      current = parent;
-    } else {
-      current = undefined;
     }
   }
 
-  // Merge configurations (root to child)
-  const resolvedFiles = mergeConfigurationChain(configs.reverse());
+  cache.set(config.id, linearization);
+  return linearization;
+}
+
+/**
+ * Resolve several configurations and compose them as layers
+ *
+ * Each configuration's inheritance is resolved first; the results are then
+ * merged in the given order, later layers taking precedence as a child does
+ * over its parent. A single configuration resolves as usual.
+ */
+export async function resolveLayers(
+  configs: Configuration[],
+  getConfig: ParentLoader
+): Promise<ResolvedConfiguration> {
+  const resolved: ResolvedConfiguration[] = [];
+  for (const config of configs) {
+    resolved.push(await resolveInheritance(config, getConfig));
+  }
+
+  if (resolved.length === 1) {
+    return resolved[0];
+  }
+
+  const layers = resolved.map((config) => config.id);
+  const { files: resolvedFiles, provenance } = mergeConfigurationChain(
+    resolved.map((config) => ({ ...config, fileContents: config.resolvedFiles, merge: undefined }))
+  );
+  const union = <T>(values: T[][]): T[] => [...new Set(values.flat())];
 
   return {
-    ...config,
+    ...resolved[0],
+    id: layers.join("+"),
+    name: resolved.map((config) => config.name).join(" + "),
+    description: resolved.map((config) => config.description).join(" "),
+    version: resolved.map((config) => config.version).join("+"),
+    extends: undefined,
+    projectTypes: union(resolved.map((config) => config.projectTypes)),
+    languages: union(resolved.map((config) => config.languages)),
+    tags: union(resolved.map((config) => config.tags)),
+    files: resolvedFiles.map((file) => file.path),
+    fileContents: resolvedFiles,
+    merge: undefined,
     resolvedFiles,
-    inheritanceChain,
+    inheritanceChain: union(resolved.map((config) => config.inheritanceChain)),
+    layers,
+    provenance,
   };
 }
 
 /**
  * Merge a chain of configurations (from root/parent to child)
+ *
+ * Also traces where each section and key of the merged files came from;
+ * configurations that were themselves resolved (layers) pass on their own
+ * provenance.
  */
-function mergeConfigurationChain(configs: Configuration[]): ConfigurationFile[] {
+function mergeConfigurationChain(
+  configs: Array<Configuration & Pick<ResolvedConfiguration, "provenance">>
+): { files: ConfigurationFile[]; provenance: FileProvenance[] } {
   const fileMap = new Map<string, ConfigurationFile>();
+  const provenanceMap = new Map<string, FileProvenance>();
 
   for (const config of configs) {
-    for (const file of config.fileContents) {
+    for (const configFile of config.fileContents) {
+      const file = atTarget(withMergeRules(configFile, config.merge?.[configFile.path]));
       const existing = fileMap.get(file.path);
+      const origins = config.provenance?.find((p) => p.path === file.path)?.entries;
 
       if (file.exclude) {
         // Remove file from parent
         fileMap.delete(file.path);
-      } else if (file.override || !existing) {
-        // Replace or add new file
-        fileMap.set(file.path, { ...file });
-      } else {
-        // Merge with existing
-        const merged = mergeFiles(existing, file);
-        fileMap.set(file.path, merged);
+        provenanceMap.delete(file.path);
+        continue;
       }
+
+      // Replace or add new file, or merge with existing
+      const merged = file.override || !existing ? file : mergeFiles(existing, file);
+      fileMap.set(file.path, merged);
+      provenanceMap.set(file.path, {
+        path: file.path,
+        entries: traceProvenance(
+          config.id,
+          existing,
+          provenanceMap.get(file.path)?.entries,
+          file,
+          merged,
+          origins,
+          file.override
+        ),
+      });
     }
   }
 
-  return Array.from(fileMap.values());
+  return { files: Array.from(fileMap.values()), provenance: Array.from(provenanceMap.values()) };
 }
 
 /**
@@ -85,12 +293,13 @@ function mergeConfigurationChain(configs: Configuration[]): ConfigurationFile[]
  */
 function mergeFiles(parent: ConfigurationFile, child: ConfigurationFile): ConfigurationFile {
   const type = child.type || parent.type;
+  const rules = { ...parent.merge, ...child.merge };
 
   let mergedContent: string;
 
   switch (type) {
     case "json":
-      mergedContent = mergeJson(parent.content, child.content);
+      mergedContent = mergeJson(parent.content, child.content, rules);
       break;
     case "yaml":
       mergedContent = mergeYaml(parent.content, child.content);
@@ -107,123 +316,84 @@ function mergeFiles(parent: ConfigurationFile, child: ConfigurationFile): Config
     path: child.path,
     content: mergedContent,
     type,
+    ...(Object.keys(rules).length > 0 && { merge: rules }),
   };
 }
 
 /**
- * Deep merge JSON content
+ * Attach a file's merge strategies, moving inline JSON directives into them
  */
-function mergeJson(parentContent: string, childContent: string): string {
-  try {
-    const parent = JSON.parse(parentContent);
-    const child = JSON.parse(childContent);
-    const merged = deepMerge(parent, child);
-    return JSON.stringify(merged, null, 2);
-  } catch {
-    // If parsing fails, return child content
-    return childContent;
+function withMergeRules(file: ConfigurationFile, metadataRules?: MergeRules): ConfigurationFile {
+  const rules: MergeRules = { ...metadataRules, ...file.merge };
+  let content = file.content;
+
+  if (file.type === "json" && content.includes(MERGE_DIRECTIVE)) {
+    try {
+      const extracted = extractMergeDirectives(JSON.parse(content));
+      Object.assign(rules, extracted.rules);
+      content = JSON.stringify(extracted.value, null, 2);
+    } catch {
+      // Invalid JSON is merged as-is
+    }
   }
-}
 
-/**
- * Merge YAML content (simplified - treats as nested objects)
- */
-function mergeYaml(parentContent: string, childContent: string): string {
-  // For simplicity, YAML merge is done at the text level
-  // Child sections replace parent sections
-  // A more sophisticated implementation would parse and merge
-  return childContent || parentContent;
+  return Object.keys(rules).length > 0 ? { ...file, content, merge: rules } : { ...file, content };
 }
 
 /**
- * Merge markdown content by sections (headers)
+ * Key a file by its destination in the project
  */
-function mergeMarkdown(parentContent: string, childContent: string): string {
-  const parentSections = parseMarkdownSections(parentContent);
-  const childSections = parseMarkdownSections(childContent);
-
-  // Child sections override parent sections with same header
-  const mergedSections = new Map(parentSections);
-
-  for (const [header, content] of childSections) {
-    mergedSections.set(header, content);
+function atTarget(file: ConfigurationFile): ConfigurationFile {
+  if (file.target === undefined) {
+    return file;
   }
-
-  // Reconstruct markdown
-  const lines: string[] = [];
-
-  for (const [header, content] of mergedSections) {
-    if (header) {
-      lines.push(header);
-    }
-    lines.push(content);
-  }
-
-  return lines.join("\n").trim();
+  const { target, ...rest } = file;
+  return { ...rest, path: target };
 }
 
 /**
- * Parse markdown into sections by headers
+ * Deep merge JSON content following merge strategies
  */
-function parseMarkdownSections(content: string): Map<string, string> {
-  const sections = new Map<string, string>();
-  const lines = content.split("\n");
-
-  let currentHeader = "";
-  let currentContent: string[] = [];
-
-  for (const line of lines) {
-    if (line.match(/^#{1,6}\s/)) {
-      // New header found
-      if (currentHeader || currentContent.length > 0) {
-        sections.set(currentHeader, currentContent.join("\n"));
-      }
-      currentHeader = line;
-      currentContent = [];
-    } else {
-      currentContent.push(line);
-    }
-  }
-
-  // Don't forget the last section
-  if (currentHeader || currentContent.length > 0) {
-    sections.set(currentHeader, currentContent.join("\n"));
+function mergeJson(parentContent: string, childContent: string, rules: MergeRules): string {
+  try {
+    const parent = JSON.parse(parentContent);
+    const child = JSON.parse(childContent);
+    const merged = mergeJsonValues(parent, child, rules);
+    return JSON.stringify(merged, null, 2);
+  } catch {
+    // If parsing fails, return child content
+    return childContent;
   }
-
-  return sections;
 }
 
 /**
- * Deep merge two objects
+ * Deep merge YAML content, keeping the parent's comments and layout
  */
-function deepMerge<T extends Record<string, unknown>>(target: T, source: T): T {
-  const result = { ...target };
-
-  for (const key of Object.keys(source)) {
-    const sourceValue = source[key];
-    const targetValue = result[key as keyof T];
-
-    if (isObject(sourceValue) && isObject(targetValue)) {
-      result[key as keyof T] = deepMerge(
-        targetValue as Record<string, unknown>,
-        sourceValue as Record<string, unknown>
-      ) as T[keyof T];
-    } else if (Array.isArray(sourceValue) && Array.isArray(targetValue)) {
-      // Merge arrays by concatenating unique values
-      result[key as keyof T] = [...new Set([...targetValue, ...sourceValue])] as T[keyof T];
-    } else {
-      result[key as keyof T] = sourceValue as T[keyof T];
-    }
+function mergeYaml(parentContent: string, childContent: string): string {
+  try {
+    return mergeYamlContent(parentContent, childContent).content;
+  } catch {
+    // If parsing fails, return child content
+    return childContent;
   }
-
-  return result;
 }
 
 /**
- * Check if value is a plain object
+ * Merge markdown content by sections (headings), keeping nesting and order
+ *
+ * Section directives are applied; those with nothing to act on in the parent
+ * are kept for the next merge (a child, or the project on apply).
  */
-function isObject(value: unknown): value is Record<string, unknown> {
-  return typeof value === "object" && value !== null && !Array.isArray(value);
+function mergeMarkdown(parentContent: string, childContent: string): string {
+  // Child sections override parent sections with the same heading
+  const merged = mergeWithDirectives(
+    parentContent,
+    childContent,
+    (parent, child) => (child.body.some((line) => line.trim()) ? child.body : parent.body),
+    true
+  );
+
+  return renderMarkdown(merged).trim();
 }
 
 /**
@@ -0,0 +1,157 @@
+/**
+ * Semantic version ranges
+ *
+ * The subset of npm's range syntax used for `extends` constraints: exact
+ * versions, `^` and `~`, comparisons (`>=1.2 <2`, `>= 1.2`), hyphen ranges
+ * (`1.2 - 1.4`), x-ranges (`1.x`, `*`) and alternatives joined with `||`.
+ * Prerelease tags are ignored.
+ */
+
+type Version = [number, number, number];
+type Comparator = [">" | ">=" | "<" | "<=" | "=", Version];
+
+const OPERATOR_SPACE_PATTERN = /(\^|~|>=|<=|>|<|=)\s+/g;
+const HYPHEN_PATTERN = /^(\S+)\s+-\s+(\S+)$/;
+const PARTIAL_PATTERN = /^(\^|~|>=|<=|>|<|=)?v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?$/;
+
+/**
+ * Parse the major, minor and patch numbers of a version
+ */
+export function parseVersion(version: string): Version | undefined {
+  const match = version.trim().match(/^v?(\d+)\.(\d+)\.(\d+)/);
+  return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : undefined;
+}
+
+/**
+ * Compare two versions (negative if a is lower, positive if higher)
+ */
+export function compareVersions(a: string, b: string): number {
+  return compareParsed(parseVersion(a) ?? [0, 0, 0], parseVersion(b) ?? [0, 0, 0]);
+}
+
+/**
+ * Check if a string is a range this module understands
+ */
+export function isValidRange(range: string): boolean {
+  return parseRange(range) !== undefined;
+}
+
+/**
+ * Check if a version satisfies a range
+ */
+export function satisfies(version: string, range: string): boolean {
+  const parsed = parseVersion(version);
+  const alternatives = parseRange(range);
+  if (!parsed || !alternatives) {
+    return false;
+  }
+
+  return alternatives.some((comparators) =>
+    comparators.every(([operator, bound]) => {
+      const order = compareParsed(parsed, bound);
+      switch (operator) {
+        case ">":
+          return order > 0;
+        case ">=":
+          return order >= 0;
+        case "<":
+          return order < 0;
+        case "<=":
+          return order <= 0;
+        default:
+          return order === 0;
+      }
+    })
+  );
+}
+
+/**
+ * Parse a range into alternatives, each a list of comparators that must all hold
+ */
+function parseRange(range: string): Comparator[][] | undefined {
+  const alternatives: Comparator[][] = [];
+
+  for (const alternative of range.split("||")) {
+    // "1.2 - 1.4" is the same as ">=1.2 <=1.4"; "> 1.2" the same as ">1.2"
+    const hyphen = alternative.trim().match(HYPHEN_PATTERN);
+    const parts = hyphen
+      ? [`>=${hyphen[1]}`, `<=${hyphen[2]}`]
+      : alternative.replace(OPERATOR_SPACE_PATTERN, "$1").trim().split(/\s+/).filter(Boolean);
+
+    const comparators: Comparator[] = [];
+    for (const part of parts) {
+      const parsed = parseComparator(part);
+      if (!parsed) {
+        return undefined;
+      }
+      comparators.push(...parsed);
+    }
+    alternatives.push(comparators);
+  }
+
+  return alternatives;
+}
+
+/**
+ * Expand one range part (e.g. "^1.2", ">=2", "1.x") into plain comparators
+ */
+function parseComparator(part: string): Comparator[] | undefined {
+  const match = part.match(PARTIAL_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+
+  const operator = match[1] ?? "";
+  const parts = match.slice(2).map((p) => (p === undefined || /^[xX*]$/.test(p) ? -1 : Number(p)));
+  const given = parts.indexOf(-1) === -1 ? 3 : parts.indexOf(-1);
+  if (given === 0) {
+    // "*" matches every version
+    return [];
+  }
+
+  const floor: Version = [Math.max(parts[0], 0), Math.max(parts[1], 0), Math.max(parts[2], 0)];
+  const next = (level: number): Version =>
+    level === 1
+      ? [floor[0] + 1, 0, 0]
+      : level === 2
+        ? [floor[0], floor[1] + 1, 0]
+        : [floor[0], floor[1], floor[2] + 1];
+
+  switch (operator) {
+    case "^": {
+      // Changes that do not modify the first non-zero part
+      const level = floor[0] > 0 || given === 1 ? 1 : floor[1] > 0 || given === 2 ? 2 : 3;
+      return [
+        [">=", floor],
+        ["<", next(level)],
+      ];
+    }
+    case "~":
+      return [
+        [">=", floor],
+        ["<", next(given === 1 ? 1 : 2)],
+      ];
+    case ">":
+      return given === 3 ? [[">", floor]] : [[">=", next(given)]];
+    case ">=":
+      return [[">=", floor]];
+    case "<":
+      return [["<", floor]];
+    case "<=":
+      return given === 3 ? [["<=", floor]] : [["<", next(given)]];
+    default:
+      return given === 3
+        ? [["=", floor]]
+        : [
+            [">=", floor],
+            ["<", next(given)],
+          ];
+  }
+}
+
+/**
+ * Compare parsed versions
+ */
+function compareParsed(a: Version, b: Version): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
@@ -4,7 +4,12 @@
  * Based on data-model.md specification
  */
 
-import type { ProjectType, TestingApproach } from "../constants.js";
+import type {
+  ConflictStrategy,
+  MergeStrategy,
+  ProjectType,
+  TestingApproach,
+} from "../constants.js";
 
 /**
  * File type for merge behavior determination
@@ -25,8 +30,31 @@ export interface ConfigurationFile {
   override?: boolean;
   /** If true, excludes parent file (inheritance) */
   exclude?: boolean;
+  /** JSON merge strategies by key path (e.g. "permissions.deny") */
+  merge?: MergeRules;
+  /** Destination path in the project (defaults to path) */
+  target?: string;
 }
 
+/**
+ * Per-file options from an object entry in config.yaml `files`
+ */
+export interface ConfigurationFileOptions {
+  /** Replace the parent's file instead of merging with it */
+  override?: boolean;
+  /** Remove the parent's file (no file is needed on disk) */
+  exclude?: boolean;
+  /** JSON merge strategies by key path */
+  merge?: MergeRules;
+  /** Destination path in the project */
+  target?: string;
+}
+
+/**
+ * JSON merge strategies by dot-separated key path ("*" matches any key)
+ */
+export type MergeRules = Record<string, MergeStrategy>;
+
 /**
  * Configuration metadata stored in config.yaml
  */
@@ -39,8 +67,8 @@ export interface ConfigurationMetadata {
   description: string;
   /** Semantic version (e.g., "1.0.0") */
   version: string;
-  /** Parent configuration ID (optional, for inheritance) */
-  extends?: string;
+  /** Parent configuration ID, or several (later parents take precedence) */
+  extends?: string | string[];
   /** Applicable project types */
   projectTypes: ProjectType[];
   /** Supported programming languages */
@@ -55,6 +83,12 @@ export interface ConfigurationMetadata {
   updated: Date;
   /** List of file paths in configuration */
   files: string[];
+  /** Options for files declared as objects, by file path */
+  fileOptions?: Record<string, ConfigurationFileOptions>;
+  /** JSON merge strategies by file path */
+  merge?: Record<string, MergeRules>;
+  /** Configuration this was cloned from, as "id@version" */
+  forkedFrom?: string;
 }
 
 /**
@@ -75,8 +109,36 @@ export interface Configuration extends ConfigurationMetadata {
 export interface ResolvedConfiguration extends Configuration {
   /** Merged files from inheritance chain */
   resolvedFiles: ConfigurationFile[];
-  /** Inheritance chain [child, parent, grandparent, ...] */
+  /** Linearized inheritance chain, most specific first [child, parent, grandparent, ...] */
   inheritanceChain: string[];
+  /** Configurations composed as layers, in apply order (when several were applied together) */
+  layers?: string[];
+  /** Where each section or key of the resolved files came from */
+  provenance?: FileProvenance[];
+}
+
+/**
+ * How a configuration contributed a section or key during resolution
+ */
+export type ProvenanceAction = "added" | "overridden" | "merged";
+
+/**
+ * Origin of one markdown section or JSON/YAML key path in a resolved file
+ */
+export interface ProvenanceEntry {
+  /** Section heading path ("Guidelines > Testing") or dot-separated key path; "" for the whole file or top-level content */
+  key: string;
+  /** Configuration that last changed it */
+  source: string;
+  action: ProvenanceAction;
+}
+
+/**
+ * Provenance of a resolved file
+ */
+export interface FileProvenance {
+  path: string;
+  entries: ProvenanceEntry[];
 }
 
 /**
@@ -111,6 +173,38 @@ export interface SearchCriteria {
   userOnly?: boolean;
 }
 
+/**
+ * How to handle configurations that extend one being removed
+ */
+export interface RemoveOptions {
+  /** Remove every configuration that extends it, directly or indirectly */
+  cascade?: boolean;
+  /** Point direct dependents at this configuration instead */
+  reparent?: string;
+}
+
+/**
+ * Result of removing a configuration from the library
+ */
+export interface RemoveResult {
+  /** IDs of removed configurations (dependents first) */
+  removed: string[];
+  /** IDs of dependents now extending the new parent */
+  reparented: string[];
+}
+
+/**
+ * Options for cloning a configuration
+ */
+export interface CloneOptions {
+  /** Display name of the copy (defaults to the source's name) */
+  name?: string;
+  /** Record the source in forkedFrom */
+  track?: boolean;
+  /** Copy the resolved files of the whole inheritance chain and drop `extends` */
+  flatten?: boolean;
+}
+
 /**
  * Apply mode for configuration application
  */
@@ -130,6 +224,20 @@ export interface ApplyOptions {
   dryRun?: boolean;
   /** Fail on conflicts instead of prompting */
   noInteractive?: boolean;
+  /** Strategy for conflicting files not matched by a rule */
+  strategy?: ConflictStrategy;
+  /** Per-file strategies (first matching pattern wins) */
+  strategyRules?: StrategyRule[];
+}
+
+/**
+ * Conflict strategy for files matching a glob pattern
+ */
+export interface StrategyRule {
+  /** Glob pattern (patterns without "/" match the file name at any depth) */
+  pattern: string;
+  /** Strategy for matching files */
+  strategy: ConflictStrategy;
 }
 
 /**
@@ -142,6 +250,10 @@ export interface ConflictInfo {
   existingContent: string;
   /** New content from configuration */
   newContent: string;
+  /** Content originally applied from the configuration (three-way merge base) */
+  baseContent?: string;
+  /** Merge strategies for the file's JSON key paths */
+  merge?: MergeRules;
   /** How the conflict was resolved */
   resolution?: "keep" | "replace" | "merge";
   /** Merged content (if resolution is 'merge') */
@@ -164,6 +276,48 @@ export interface ApplyResult {
   conflicts: ConflictInfo[];
   /** Error messages */
   errors: string[];
+  /** Whether a failed write was rolled back, leaving the project as it was */
+  rolledBack?: boolean;
+  /** Files restored to their previous state by the rollback */
+  filesRestored?: string[];
+  /** Backup of the files as they were before this apply */
+  backupId?: string;
+  /** Lockfile for this apply (written once all conflicts are resolved) */
+  lock?: ApplyLock;
+  /** Problems resolved automatically while merging (e.g. contradicting permissions) */
+  warnings?: string[];
+}
+
+/**
+ * A file written into a project by cpm
+ */
+export interface LockedFile {
+  /** Hash of the content written to the project */
+  hash: string;
+  /** Hash of the content the configuration resolved to */
+  sourceHash: string;
+  /** The project's own file was kept; none of the configuration's content is in it */
+  kept?: boolean;
+}
+
+/**
+ * Lockfile recording which configuration produced a project's files
+ */
+export interface ApplyLock {
+  /** Lockfile format version */
+  lockfileVersion: number;
+  /** Applied configuration ID */
+  configId: string;
+  /** Applied configuration version */
+  version: string;
+  /** Inheritance chain [child, parent, grandparent, ...] */
+  inheritanceChain: string[];
+  /** Configurations composed as layers, in apply order */
+  layers?: string[];
+  /** When the configuration was applied (ISO 8601) */
+  appliedAt: string;
+  /** Written files keyed by project-relative path */
+  files: Record<string, LockedFile>;
 }
 
 /**
@@ -178,6 +332,18 @@ export interface MergeResult {
   hasConflicts: boolean;
   /** Number of conflict markers in content */
   conflictMarkers: number;
+  /** Problems resolved automatically that the user should know about */
+  warnings?: string[];
+}
+
+/**
+ * Result of removing contributed content from a file
+ */
+export interface UnmergeResult {
+  /** Remaining content (empty if nothing else is left) */
+  content: string;
+  /** Contributed sections or keys that were edited in the project */
+  edited: string[];
 }
 
 /**
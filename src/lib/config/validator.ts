@@ -5,7 +5,10 @@
 import { stat } from "fs/promises";
 import { join } from "path";
 import type { Configuration, ConfigurationMetadata, ValidationResult } from "./types.js";
-import { PROJECT_TYPES, TESTING_APPROACHES } from "../constants.js";
+import { PROJECT_TYPES, TESTING_APPROACHES, MERGE_STRATEGIES } from "../constants.js";
+import { isMergeStrategy } from "./json-merge.js";
+import { getParentRefs } from "./resolver.js";
+import { isValidRange } from "./semver.js";
 
 /**
  * Validate a configuration ID format
@@ -85,6 +88,13 @@ export function validateMetadata(metadata: ConfigurationMetadata): ValidationRes
     errors.push("At least one language is required");
   }
 
+  // Version ranges on parents (optional but must be valid if provided)
+  for (const { id, range } of getParentRefs(metadata)) {
+    if (range !== undefined && !isValidRange(range)) {
+      errors.push(`Invalid version range for parent ${id}: ${range}`);
+    }
+  }
+
   // Testing approach (optional but must be valid if provided)
   if (
     metadata.testingApproach &&
@@ -100,6 +110,20 @@ export function validateMetadata(metadata: ConfigurationMetadata): ValidationRes
     warnings.push("Configuration has no files defined");
   }
 
+  // Merge strategies (optional but must be valid if provided)
+  for (const [filePath, rules] of Object.entries(metadata.merge ?? {})) {
+    if (!metadata.files?.includes(filePath)) {
+      warnings.push(`Merge strategies declared for unlisted file: ${filePath}`);
+    }
+    for (const [keyPath, strategy] of Object.entries(rules ?? {})) {
+      if (!isMergeStrategy(strategy)) {
+        errors.push(
+          `Invalid merge strategy for ${filePath} (${keyPath}): ${strategy}. Valid: ${MERGE_STRATEGIES.join(", ")}`
+        );
+      }
+    }
+  }
+
   // Dates
   if (metadata.created && isNaN(metadata.created.getTime())) {
     errors.push("Invalid created date");
@@ -142,6 +166,30 @@ export function validateConfiguration(config: Configuration): ValidationResult {
     }
   }
 
+  // Validate per-file options
+  for (const [filePath, options] of Object.entries(config.fileOptions ?? {})) {
+    if (!config.files.includes(filePath)) {
+      warnings.push(`File options declared for unlisted file: ${filePath}`);
+    }
+    if (options.override && options.exclude) {
+      errors.push(`File cannot be both overridden and excluded: ${filePath}`);
+    }
+    if (options.target !== undefined) {
+      if (options.target.trim() === "" || options.target.startsWith("/")) {
+        errors.push(`Target path must be relative: ${filePath} → ${options.target}`);
+      } else if (options.target.includes("..")) {
+        errors.push(`Target path cannot traverse up: ${filePath} → ${options.target}`);
+      }
+    }
+    for (const [keyPath, strategy] of Object.entries(options.merge ?? {})) {
+      if (!isMergeStrategy(strategy)) {
+        errors.push(
+          `Invalid merge strategy for ${filePath} (${keyPath}): ${strategy}. Valid: ${MERGE_STRATEGIES.join(", ")}`
+        );
+      }
+    }
+  }
+
   // Check file contents match files array
   if (config.fileContents) {
     const contentPaths = new Set(config.fileContents.map((f) => f.path));
@@ -189,37 +237,31 @@ export async function validateFilesExist(
 }
 
 /**
- * Validate inheritance chain (no cycles)
+ * Validate inheritance chain (no cycles), following every parent
  */
 export function validateInheritanceChain(
   configId: string,
-  getParentId: (id: string) => string | undefined,
+  getParentIds: (id: string) => string[],
   maxDepth: number = 10
 ): ValidationResult {
-  const errors: string[] = [];
-  const warnings: string[] = [];
-  const seen = new Set<string>();
-  const chain: string[] = [];
+  const errors = new Set<string>();
+  const warnings = new Set<string>();
 
-  let currentId: string | undefined = configId;
-
-  while (currentId) {
-    if (seen.has(currentId)) {
-      chain.push(currentId);
-      errors.push(`Circular inheritance detected: ${chain.join(" → ")}`);
-      break;
+  const visit = (id: string, chain: string[]): void => {
+    if (chain.includes(id)) {
+      errors.add(`Circular inheritance detected: ${[...chain, id].join(" → ")}`);
+      return;
     }
-
-    seen.add(currentId);
-    chain.push(currentId);
-
-    if (chain.length > maxDepth) {
-      warnings.push(`Inheritance chain exceeds ${maxDepth} levels`);
-      break;
+    if (chain.length >= maxDepth) {
+      warnings.add(`Inheritance chain exceeds ${maxDepth} levels`);
+      return;
     }
 
-    currentId = getParentId(currentId);
-  }
+    for (const parentId of getParentIds(id)) {
+      visit(parentId, [...chain, id]);
+    }
+  };
+  visit(configId, []);
 
-  return { valid: errors.length === 0, errors, warnings };
+  return { valid: errors.size === 0, errors: [...errors], warnings: [...warnings] };
 }
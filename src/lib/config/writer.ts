@@ -2,8 +2,9 @@
  * Configuration writer - saves configurations to filesystem
  */
 
-import { writeFile, mkdir, rm } from "fs/promises";
-import { join, dirname } from "path";
+import { randomBytes } from "crypto";
+import { writeFile, readFile, mkdir, rm, rename, stat, chmod } from "fs/promises";
+import { join, dirname, basename } from "path";
 import { stringify as stringifyYaml } from "yaml";
 import type { Configuration, ConfigurationMetadata, ConfigurationFile } from "./types.js";
 import { CONFIG_FILENAME } from "../constants.js";
@@ -56,7 +57,18 @@ export async function writeMetadata(
 
   yamlContent.created = metadata.created.toISOString();
   yamlContent.updated = metadata.updated.toISOString();
-  yamlContent.files = metadata.files;
+  yamlContent.files = metadata.files.map((path) => {
+    const options = metadata.fileOptions?.[path];
+    return options && Object.keys(options).length > 0 ? { path, ...options } : path;
+  });
+
+  if (metadata.merge && Object.keys(metadata.merge).length > 0) {
+    yamlContent.merge = metadata.merge;
+  }
+
+  if (metadata.forkedFrom) {
+    yamlContent.forkedFrom = metadata.forkedFrom;
+  }
 
   const yaml = stringifyYaml(yamlContent, { lineWidth: 0 });
   await safeWriteFile(metadataPath, yaml);
@@ -70,6 +82,10 @@ export async function writeConfigFiles(
   targetPath: string
 ): Promise<void> {
   for (const file of files) {
+    if (file.exclude) {
+      continue;
+    }
+
     const filePath = resolveSafePath(targetPath, file.path);
     await ensureDirectory(dirname(filePath));
     await safeWriteFile(filePath, file.content);
@@ -77,36 +93,154 @@ export async function writeConfigFiles(
 }
 
 /**
- * Write files to a target project directory
+ * Result of writing files to a project
+ */
+export interface ProjectWriteResult {
+  /** Files written */
+  created: string[];
+  /** Error messages */
+  errors: string[];
+  /** Whether a failure caused already-written files to be rolled back */
+  rolledBack: boolean;
+  /** Files put back to their previous state during rollback */
+  restored: string[];
+}
+
+/**
+ * A file staged for writing
+ */
+interface StagedFile {
+  path: string;
+  fullPath: string;
+  tempPath: string;
+  /** Content before the write (undefined if the file did not exist) */
+  previousContent?: Buffer;
+}
+
+/**
+ * Write files to a target project directory as a single transaction
+ *
+ * All content is first staged to temp files next to its destination, then each
+ * temp file is renamed into place, keeping the mode of the file it replaces. If
+ * anything fails, files already renamed are restored to their previous content (or
+ * removed if they were new) and directories created for them are removed, so the
+ * project is never left half-written.
  */
 export async function writeFilesToProject(
   files: ConfigurationFile[],
   projectPath: string
-): Promise<{ created: string[]; errors: string[] }> {
-  const created: string[] = [];
-  const errors: string[] = [];
+): Promise<ProjectWriteResult> {
+  const result: ProjectWriteResult = { created: [], errors: [], rolledBack: false, restored: [] };
+  const staged: StagedFile[] = [];
+  const committed: StagedFile[] = [];
+  const createdDirectories: string[] = [];
+  let current = "";
 
-  for (const file of files) {
-    try {
-      const filePath = resolveSafePath(projectPath, file.path);
-      await ensureDirectory(dirname(filePath));
-      await safeWriteFile(filePath, file.content);
-      created.push(file.path);
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      errors.push(`Failed to write ${file.path}: ${message}`);
+  try {
+    // Stage every file before touching any destination
+    for (const file of files) {
+      current = file.path;
+      const fullPath = resolveSafePath(projectPath, file.path);
+      const tempPath = join(
+        dirname(fullPath),
+        `.${basename(fullPath)}.cpm-${randomBytes(4).toString("hex")}.tmp`
+      );
+
+      const createdDirectory = await ensureDirectory(dirname(fullPath));
+      if (createdDirectory) {
+        createdDirectories.push(createdDirectory);
+      }
+      staged.push({ path: file.path, fullPath, tempPath });
+      await safeWriteFile(tempPath, file.content);
+
+      // Keep the replaced file's permissions (e.g. executable hooks)
+      const mode = await readMode(fullPath);
+      if (mode !== undefined) {
+        await chmod(tempPath, mode);
+      }
+    }
+
+    // Move staged files into place
+    for (const file of staged) {
+      current = file.path;
+      file.previousContent = await readExisting(file.fullPath);
+      await safeRename(file.tempPath, file.fullPath);
+      committed.push(file);
+      result.created.push(file.path);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    result.errors.push(`Failed to write ${current}: ${message}`);
+
+    // Roll back files already moved into place
+    for (const file of committed.reverse()) {
+      try {
+        if (file.previousContent === undefined) {
+          await rm(file.fullPath, { force: true });
+        } else {
+          await writeFile(file.fullPath, file.previousContent);
+        }
+        result.restored.push(file.path);
+      } catch (restoreError) {
+        const restoreMessage =
+          restoreError instanceof Error ? restoreError.message : String(restoreError);
+        result.errors.push(`Failed to restore ${file.path}: ${restoreMessage}`);
+      }
+    }
+
+    // Remove directories created for new files
+    for (const directory of createdDirectories.reverse()) {
+      await rm(directory, { recursive: true, force: true }).catch(() => undefined);
+    }
+
+    result.rolledBack = committed.length > 0;
+    result.created = [];
+  } finally {
+    // Remove temp files that were never moved into place
+    for (const file of staged) {
+      if (!committed.includes(file)) {
+        await rm(file.tempPath, { force: true }).catch(() => undefined);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Read a file's current content (undefined if it does not exist)
+ */
+async function readExisting(filePath: string): Promise<Buffer | undefined> {
+  try {
+    return await readFile(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
     }
+    throw error;
   }
+}
 
-  return { created, errors };
+/**
+ * Read a file's permission bits (undefined if it does not exist)
+ */
+async function readMode(filePath: string): Promise<number | undefined> {
+  try {
+    return (await stat(filePath)).mode & 0o7777;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
 }
 
 /**
- * Ensure a directory exists
+ * Ensure a directory exists, returning the first directory created (if any)
  */
-export async function ensureDirectory(dirPath: string): Promise<void> {
+export async function ensureDirectory(dirPath: string): Promise<string | undefined> {
   try {
-    await mkdir(dirPath, { recursive: true });
+    return await mkdir(dirPath, { recursive: true });
   } catch (error) {
     if ((error as NodeJS.ErrnoException).code === "EACCES") {
       throw new PermissionDeniedError(dirPath);
@@ -129,6 +263,29 @@ async function safeWriteFile(filePath: string, content: string): Promise<void> {
   }
 }
 
+/**
+ * Rename a file into place with permission error handling
+ */
+async function safeRename(fromPath: string, toPath: string): Promise<void> {
+  try {
+    await rename(fromPath, toPath);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === "EACCES" || code === "EPERM") {
+      throw new PermissionDeniedError(toPath);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Move a configuration directory
+ */
+export async function moveConfiguration(fromPath: string, toPath: string): Promise<void> {
+  await ensureDirectory(dirname(toPath));
+  await safeRename(fromPath, toPath);
+}
+
 /**
  * Remove a configuration directory
  */
@@ -0,0 +1,243 @@
+/**
+ * Structure-preserving YAML merge
+ *
+ * Merges YAML documents through the `yaml` Document API so comments, key order
+ * and anchors of the base document survive. Maps are merged key by key, sequences
+ * are unioned, and differing scalars are reported as conflicts.
+ *
+ * Given a common ancestor, the merge is three-way: only what the overlay changed
+ * since the ancestor is applied, including keys and sequence items it removed,
+ * and conflicts are limited to values both documents changed differently.
+ */
+
+import { isDeepStrictEqual } from "util";
+import { parseDocument, isAlias, isMap, isScalar, isSeq, visit, type Document } from "yaml";
+
+/**
+ * Result of merging two YAML documents
+ */
+export interface YamlMergeResult {
+  /** Merged YAML */
+  content: string;
+  /** Key paths where both documents hold different values */
+  conflicts: string[];
+}
+
+/**
+ * Deep merge an overlay YAML document into a base document
+ *
+ * Conflicting values are taken from the overlay unless prefer is "base".
+ * Throws if any document is not valid YAML.
+ */
+export function mergeYamlContent(
+  baseContent: string,
+  overlayContent: string,
+  prefer: "base" | "overlay" = "overlay",
+  ancestorContent?: string
+): YamlMergeResult {
+  const baseDoc = parseYaml(baseContent);
+  const overlayDoc = parseYaml(overlayContent);
+  const ancestor = ancestorContent !== undefined ? parseYaml(ancestorContent).toJS() : undefined;
+  const conflicts: string[] = [];
+
+  if (baseDoc.contents === null) {
+    return { content: overlayContent, conflicts };
+  }
+  if (overlayDoc.contents === null) {
+    return { content: baseContent, conflicts };
+  }
+
+  const threeWay = ancestorContent !== undefined;
+  const context: MergeContext = { baseDoc, overlayDoc, prefer, conflicts, threeWay };
+  baseDoc.contents = mergeNodes(context, baseDoc.contents, overlayDoc.contents, "", ancestor);
+
+  // Keep the overlay's leading comment if the base has none
+  baseDoc.commentBefore ??= overlayDoc.commentBefore;
+
+  return { content: baseDoc.toString(), conflicts };
+}
+
+interface MergeContext {
+  baseDoc: Document;
+  overlayDoc: Document;
+  prefer: "base" | "overlay";
+  conflicts: string[];
+  /** Whether ancestor values are known (three-way merge) */
+  threeWay: boolean;
+}
+
+type YamlNode = NonNullable<Document["contents"]>;
+
+/**
+ * Merge an overlay node into a base node, returning the node to keep
+ *
+ * In a three-way merge, ancestor is the plain value both nodes started from.
+ */
+function mergeNodes(
+  context: MergeContext,
+  base: YamlNode,
+  overlay: YamlNode,
+  keyPath: string,
+  ancestor?: unknown
+): YamlNode {
+  const overlayValue = toJS(context.overlayDoc, overlay);
+  if (context.threeWay && isDeepStrictEqual(overlayValue, ancestor)) {
+    // The overlay did not change this node
+    return base;
+  }
+
+  if (isMap(base) && isMap(overlay)) {
+    const previous = isRecord(ancestor) ? ancestor : {};
+    const childPath = (key: string): string => (keyPath ? `${keyPath}.${key}` : key);
+
+    for (const pair of overlay.items) {
+      const key = keyOf(pair.key);
+      const existing = base.items.find((p) => keyOf(p.key) === key);
+
+      if (!existing) {
+        // Removed from the base since the ancestor: only a changed overlay value conflicts
+        if (context.threeWay && key in previous) {
+          if (!isDeepStrictEqual(toJS(context.overlayDoc, pair.value), previous[key])) {
+            context.conflicts.push(childPath(key));
+            if (context.prefer === "overlay") {
+              pair.value = adopt(context, pair.value as YamlNode | null);
+              base.items.push(pair);
+            }
+          }
+          continue;
+        }
+        pair.value = adopt(context, pair.value as YamlNode | null);
+        base.items.push(pair);
+      } else if (existing.value && pair.value) {
+        existing.value = mergeNodes(
+          context,
+          existing.value as YamlNode,
+          pair.value as YamlNode,
+          childPath(key),
+          previous[key]
+        );
+      } else if (!existing.value) {
+        existing.value = adopt(context, pair.value as YamlNode | null);
+      }
+    }
+
+    if (context.threeWay) {
+      // Keys the overlay removed go too, unless the base changed them
+      for (const key of Object.keys(previous)) {
+        const existing = base.items.find((p) => keyOf(p.key) === key);
+        if (!existing || overlay.items.some((p) => keyOf(p.key) === key)) {
+          continue;
+        }
+        const unchanged = isDeepStrictEqual(toJS(context.baseDoc, existing.value), previous[key]);
+        if (!unchanged) {
+          context.conflicts.push(childPath(key));
+        }
+        if (unchanged || context.prefer === "overlay") {
+          base.items.splice(base.items.indexOf(existing), 1);
+        }
+      }
+    }
+    return base;
+  }
+
+  if (isSeq(base) && isSeq(overlay)) {
+    // Union - append overlay items not already present, dropping items the
+    // overlay removed since the ancestor
+    const previous = context.threeWay && Array.isArray(ancestor) ? ancestor : [];
+    const overlayValues = overlay.items.map((item) => toJS(context.overlayDoc, item));
+    const removed = previous.filter((p) => !overlayValues.some((v) => isDeepStrictEqual(v, p)));
+    base.items = base.items.filter(
+      (item) => !removed.some((r) => isDeepStrictEqual(toJS(context.baseDoc, item), r))
+    );
+
+    const baseValues = base.items.map((item) => toJS(context.baseDoc, item));
+    overlay.items.forEach((item, i) => {
+      if (!baseValues.some((existing) => isDeepStrictEqual(existing, overlayValues[i]))) {
+        base.items.push(adopt(context, item as YamlNode));
+        baseValues.push(overlayValues[i]);
+      }
+    });
+    return base;
+  }
+
+  const baseValue = toJS(context.baseDoc, base);
+  if (isDeepStrictEqual(baseValue, overlayValue)) {
+    return base;
+  }
+
+  // A conflict unless only the overlay changed the value
+  if (!context.threeWay || !isDeepStrictEqual(baseValue, ancestor)) {
+    context.conflicts.push(keyPath || "(root)");
+    if (context.prefer === "base") {
+      return base;
+    }
+  }
+
+  const adopted = adopt(context, overlay);
+  if (isScalar(adopted) && isScalar(base)) {
+    adopted.comment ??= base.comment;
+    adopted.commentBefore ??= base.commentBefore;
+  }
+  return adopted;
+}
+
+/**
+ * Move an overlay node into the base document
+ *
+ * Nodes referring to anchors the base document does not have are copied by value.
+ */
+function adopt<T extends YamlNode | null>(context: MergeContext, node: T): T {
+  const anchors = new Set<string>();
+  visit(context.baseDoc, {
+    Node(_key, n) {
+      if (n.anchor) {
+        anchors.add(n.anchor);
+      }
+    },
+  });
+
+  let unresolved = false;
+  visit(node, {
+    Alias(_key, alias) {
+      unresolved = !anchors.has(alias.source);
+      return unresolved ? visit.BREAK : undefined;
+    },
+  });
+
+  return unresolved ? (context.baseDoc.createNode(toJS(context.overlayDoc, node)) as T) : node;
+}
+
+/**
+ * Plain JavaScript value of a node within its document
+ */
+function toJS(doc: Document, node: unknown): unknown {
+  if (isAlias(node) || isScalar(node) || isMap(node) || isSeq(node)) {
+    return node.toJS(doc);
+  }
+  return node;
+}
+
+/**
+ * Whether a plain value is a mapping
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Comparable key of a map pair
+ */
+function keyOf(key: unknown): string {
+  return isScalar(key) ? String(key.value) : String(key);
+}
+
+/**
+ * Parse YAML, throwing on syntax errors
+ */
+function parseYaml(content: string): Document {
+  const doc = parseDocument(content);
+  if (doc.errors.length > 0) {
+    throw new Error(`Invalid YAML: ${doc.errors[0].message}`);
+  }
+  return doc;
+}
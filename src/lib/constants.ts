@@ -34,6 +34,12 @@ export const CONFIG_DIR = join(getConfigDir(), APP_NAME);
  */
 export const LIBRARY_PATH = process.env.CPM_LIBRARY_PATH || join(CONFIG_DIR, "library");
 
+/**
+ * Directory within the library holding previous versions of configurations
+ * (dot-prefixed so it is never listed as a configuration)
+ */
+export const HISTORY_DIRNAME = ".history";
+
 /**
  * Global settings file path
  */
@@ -59,6 +65,16 @@ export const CLAUDE_DIR = ".claude";
  */
 export const CLAUDE_SETTINGS_FILENAME = "settings.json";
 
+/**
+ * Lockfile written into .claude/ recording what cpm applied
+ */
+export const CPM_LOCK_FILENAME = "cpm-lock.json";
+
+/**
+ * Directory in .claude/ where cpm keeps its own state
+ */
+export const CPM_STATE_DIRNAME = "cpm";
+
 /**
  * Valid project types
  */
@@ -71,6 +87,32 @@ export type ProjectType = (typeof PROJECT_TYPES)[number];
 export const TESTING_APPROACHES = ["tdd", "bdd", "unit", "integration", "e2e", "none"] as const;
 export type TestingApproach = (typeof TESTING_APPROACHES)[number];
 
+/**
+ * JSON merge strategies for a key path
+ * - replace: incoming value replaces the existing one
+ * - union: arrays combined without duplicates (default)
+ * - append: incoming array items added after existing ones
+ * - prepend: incoming array items added before existing ones
+ * - keep: existing value kept if present
+ */
+export const MERGE_STRATEGIES = ["replace", "union", "append", "prepend", "keep"] as const;
+export type MergeStrategy = (typeof MERGE_STRATEGIES)[number];
+
+/**
+ * Non-interactive conflict strategies for a file
+ * - ours: keep the project's file
+ * - theirs: replace it with the configuration's file
+ * - merge: merge automatically (files that still conflict are left unresolved)
+ */
+export const CONFLICT_STRATEGIES = ["ours", "theirs", "merge"] as const;
+export type ConflictStrategy = (typeof CONFLICT_STRATEGIES)[number];
+
+/**
+ * Output formats for `cpm graph`
+ */
+export const GRAPH_FORMATS = ["ascii", "mermaid", "dot"] as const;
+export type GraphFormat = (typeof GRAPH_FORMATS)[number];
+
 /**
  * Exit codes per CLI contract
  */
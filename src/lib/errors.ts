@@ -53,10 +53,12 @@ export class ConflictDetectedError extends CpmError {
   readonly userMessage: string;
   readonly conflictingFiles: string[];
 
-  constructor(conflictingFiles: string[]) {
+  constructor(conflictingFiles: string[], userMessage?: string) {
     super(`Conflict detected for files: ${conflictingFiles.join(", ")}`);
     this.conflictingFiles = conflictingFiles;
-    this.userMessage = `Project already has Claude Code configuration. Use \`--force\` to replace or \`--merge\` to combine.`;
+    this.userMessage =
+      userMessage ??
+      `Project already has Claude Code configuration. Use \`--force\` to replace or \`--merge\` to combine.`;
   }
 }
 
@@ -75,6 +77,19 @@ export class InheritanceCycleError extends CpmError {
   }
 }
 
+/**
+ * Parents listed in `extends` cannot be put in a consistent order
+ */
+export class InheritanceOrderError extends CpmError {
+  readonly code = EXIT_CODES.VALIDATION_ERROR;
+  readonly userMessage: string;
+
+  constructor(configId: string, conflicting: string[]) {
+    super(`Cannot linearize inheritance of "${configId}": ${conflicting.join(", ")}`);
+    this.userMessage = `Configuration "${configId}" inherits ${conflicting.join(", ")} in conflicting orders. Reorder its \`extends\` list to match its parents.`;
+  }
+}
+
 /**
  * Permission denied for file operation
  */
@@ -103,6 +118,19 @@ export class LibraryNotFoundError extends CpmError {
   }
 }
 
+/**
+ * Configuration is extended by other configurations (during remove)
+ */
+export class ConfigHasDependentsError extends CpmError {
+  readonly code = EXIT_CODES.VALIDATION_ERROR;
+  readonly userMessage: string;
+
+  constructor(configId: string, dependents: string[]) {
+    super(`Configuration "${configId}" is extended by ${dependents.join(", ")}`);
+    this.userMessage = `Configuration "${configId}" is extended by: ${dependents.join(", ")}. Use --cascade to remove them too, or --reparent <id> to point them at another parent.`;
+  }
+}
+
 /**
  * Configuration already exists (during create)
  */
@@ -116,6 +144,19 @@ export class ConfigExistsError extends CpmError {
   }
 }
 
+/**
+ * Requested version of a configuration not found in library history
+ */
+export class ConfigVersionNotFoundError extends CpmError {
+  readonly code = EXIT_CODES.NOT_FOUND;
+  readonly userMessage: string;
+
+  constructor(configId: string, version: string) {
+    super(`Version "${version}" of configuration "${configId}" not found`);
+    this.userMessage = `Version "${version}" of configuration "${configId}" is not in the library history.`;
+  }
+}
+
 /**
  * Parent configuration not found (during inheritance resolution)
  */
@@ -129,6 +170,19 @@ export class ParentNotFoundError extends CpmError {
   }
 }
 
+/**
+ * Parent configuration version does not satisfy the range in `extends`
+ */
+export class ParentVersionMismatchError extends CpmError {
+  readonly code = EXIT_CODES.VALIDATION_ERROR;
+  readonly userMessage: string;
+
+  constructor(configId: string, parentId: string, range: string, version: string) {
+    super(`Parent "${parentId}" ${version} does not satisfy ${range} required by "${configId}"`);
+    this.userMessage = `Configuration "${configId}" extends "${parentId}@${range}", but no version in the library satisfies it (current: ${version}). Update the range or restore a matching version.`;
+  }
+}
+
 /**
  * File not found in configuration
  */
@@ -142,6 +196,92 @@ export class FileNotFoundError extends CpmError {
   }
 }
 
+/**
+ * Project has no apply lockfile (configuration never applied with cpm)
+ */
+export class LockfileNotFoundError extends CpmError {
+  readonly code = EXIT_CODES.NOT_FOUND;
+  readonly userMessage: string;
+
+  constructor(targetPath: string) {
+    super(`No cpm lockfile found in "${targetPath}"`);
+    this.userMessage = `No applied configuration found in ${targetPath}. Run \`cpm apply\` first.`;
+  }
+}
+
+/**
+ * Project has no backup to restore
+ */
+export class BackupNotFoundError extends CpmError {
+  readonly code = EXIT_CODES.NOT_FOUND;
+  readonly userMessage: string;
+
+  constructor(targetPath: string, backupId?: string) {
+    super(
+      backupId
+        ? `Backup "${backupId}" not found in "${targetPath}"`
+        : `No backups found in "${targetPath}"`
+    );
+    this.userMessage = backupId
+      ? `Backup "${backupId}" not found. Run \`cpm undo --list\` to see available backups.`
+      : `Nothing to undo in ${targetPath}.`;
+  }
+}
+
+/**
+ * Content a configuration contributed was edited in the project (during unapply)
+ */
+export class ContributionEditedError extends CpmError {
+  readonly code = EXIT_CODES.CONFLICT;
+  readonly userMessage: string;
+  readonly editedFiles: string[];
+
+  constructor(editedFiles: string[]) {
+    super(`Contributed content was edited in: ${editedFiles.join(", ")}`);
+    this.editedFiles = editedFiles;
+    this.userMessage = `Content added by the configuration was edited locally in ${editedFiles.join(", ")}. Use \`--force\` to remove it anyway.`;
+  }
+}
+
+/**
+ * Conflict strategy rules file is missing or malformed
+ */
+export class InvalidStrategyRulesError extends CpmError {
+  readonly code = EXIT_CODES.VALIDATION_ERROR;
+  readonly userMessage: string;
+
+  constructor(rulesPath: string, reason: string) {
+    super(`Invalid strategy rules in ${rulesPath}: ${reason}`);
+    this.userMessage = `Strategy rules file ${rulesPath} is invalid: ${reason}`;
+  }
+}
+
+/**
+ * External editor could not be started or exited with an error
+ */
+export class EditorFailedError extends CpmError {
+  readonly code = EXIT_CODES.GENERAL_ERROR;
+  readonly userMessage: string;
+
+  constructor(editor: string, reason: string) {
+    super(`Editor "${editor}" failed: ${reason}`);
+    this.userMessage = `Could not edit with "${editor}": ${reason}. Set $VISUAL or $EDITOR to an editor that waits until the file is closed.`;
+  }
+}
+
+/**
+ * A specific version was requested for a project applied from several layers
+ */
+export class LayeredVersionError extends CpmError {
+  readonly code = EXIT_CODES.VALIDATION_ERROR;
+  readonly userMessage: string;
+
+  constructor(layers: string[]) {
+    super(`Cannot pick one version for layered configurations: ${layers.join(", ")}`);
+    this.userMessage = `The project was applied from several configurations (${layers.join(", ")}). \`--to\` only works for a single configuration; run \`cpm upgrade\` without it to move every layer to its latest version.`;
+  }
+}
+
 /**
  * Check if error is a CpmError
  */
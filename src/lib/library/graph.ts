@@ -0,0 +1,294 @@
+/**
+ * Inheritance graph of the configuration library
+ *
+ * Builds the parent/child graph from `extends` and renders it as an ASCII
+ * tree, a Mermaid flowchart or Graphviz DOT. Parents that are not in the
+ * library and inheritance cycles are reported alongside the graph.
+ */
+
+import type { Configuration } from "../config/types.js";
+import { getParentRefs } from "../config/resolver.js";
+
+/**
+ * A configuration in the graph (or a missing parent)
+ */
+export interface GraphNode {
+  id: string;
+  name: string;
+  version?: string;
+  bundled: boolean;
+  /** Referenced in `extends` but not in the library */
+  missing: boolean;
+}
+
+/**
+ * A child extending a parent
+ */
+export interface GraphEdge {
+  child: string;
+  parent: string;
+  /** Version range from `extends`, if any */
+  range?: string;
+}
+
+/**
+ * The library's inheritance graph
+ */
+export interface InheritanceGraph {
+  /** Configurations and missing parents, sorted by ID */
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  /** IDs of parents that are not in the library */
+  missing: string[];
+  /** Inheritance cycles, each starting and ending with the same ID */
+  cycles: string[][];
+}
+
+/**
+ * Highlighting applied to ASCII tree labels
+ */
+export interface AsciiTreeStyle {
+  bundled: (text: string) => string;
+  missing: (text: string) => string;
+  cycle: (text: string) => string;
+  dim: (text: string) => string;
+}
+
+const plain = (text: string): string => text;
+
+/**
+ * Build the inheritance graph of a set of configurations
+ */
+export function buildInheritanceGraph(configs: Configuration[]): InheritanceGraph {
+  const nodes = new Map<string, GraphNode>();
+  for (const config of configs) {
+    // A user configuration shadows a bundled one with the same ID
+    if (!nodes.has(config.id) || !config.bundled) {
+      nodes.set(config.id, {
+        id: config.id,
+        name: config.name,
+        version: config.version,
+        bundled: !!config.bundled,
+        missing: false,
+      });
+    }
+  }
+
+  const edges: GraphEdge[] = [];
+  const missing = new Set<string>();
+  for (const config of configs.filter((c) => nodes.get(c.id)?.bundled === !!c.bundled)) {
+    for (const { id, range } of getParentRefs(config)) {
+      edges.push({ child: config.id, parent: id, ...(range && { range }) });
+      if (!nodes.has(id)) {
+        missing.add(id);
+      }
+    }
+  }
+
+  for (const id of missing) {
+    nodes.set(id, { id, name: id, bundled: false, missing: true });
+  }
+
+  return {
+    nodes: [...nodes.values()].sort((a, b) => a.id.localeCompare(b.id)),
+    edges,
+    missing: [...missing].sort(),
+    cycles: findCycles(edges),
+  };
+}
+
+/**
+ * Render the graph as an ASCII tree, parents above their children
+ *
+ * A configuration with several parents is listed under each of them; its
+ * children are only expanded the first time.
+ */
+export function renderAsciiTree(graph: InheritanceGraph, styles?: Partial<AsciiTreeStyle>): string {
+  const s: AsciiTreeStyle = { bundled: plain, missing: plain, cycle: plain, dim: plain, ...styles };
+  const nodes = new Map(graph.nodes.map((node) => [node.id, node]));
+  const inCycle = new Set(graph.cycles.flat());
+  const lines: string[] = [];
+  const expanded = new Set<string>();
+
+  const label = (node: GraphNode): string => {
+    if (node.missing) {
+      return s.missing(`${node.id} (missing)`);
+    }
+    const parts = [node.id];
+    if (node.version) {
+      parts.push(s.dim(`v${node.version}`));
+    }
+    if (node.bundled) {
+      parts.push(s.bundled("[bundled]"));
+    }
+    if (inCycle.has(node.id)) {
+      parts.push(s.cycle("(cycle)"));
+    }
+    return parts.join(" ");
+  };
+
+  const visit = (id: string, prefix: string, connector: string, childPrefix: string): void => {
+    const node = nodes.get(id)!;
+    const seen = expanded.has(id);
+    lines.push(`${prefix}${connector}${label(node)}${seen ? s.dim(" (see above)") : ""}`);
+    if (seen) {
+      return;
+    }
+    expanded.add(id);
+
+    const children = childrenOf(graph, id);
+    children.forEach((child, i) => {
+      const last = i === children.length - 1;
+      visit(child, prefix + childPrefix, last ? "└── " : "├── ", last ? "    " : "│   ");
+    });
+  };
+
+  // Roots have no parents; missing parents head their children
+  for (const node of graph.nodes) {
+    if (!graph.edges.some((edge) => edge.child === node.id)) {
+      visit(node.id, "", "", "");
+    }
+  }
+
+  // Configurations only reachable through a cycle
+  for (const node of graph.nodes) {
+    if (!expanded.has(node.id)) {
+      visit(node.id, "", "", "");
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Render the graph as a Mermaid flowchart (parent --> child)
+ */
+export function renderMermaid(graph: InheritanceGraph): string {
+  const ids = new Map(graph.nodes.map((node, i) => [node.id, `n${i}`]));
+  const cycleEdges = getCycleEdges(graph);
+  const lines = ["flowchart TD"];
+
+  for (const node of graph.nodes) {
+    lines.push(`  ${ids.get(node.id)}["${node.id}"]:::${nodeClass(node)}`);
+  }
+
+  const cycleLinks: number[] = [];
+  graph.edges.forEach((edge, i) => {
+    const label = edge.range ? `|"${edge.range}"|` : "";
+    lines.push(`  ${ids.get(edge.parent)} -->${label} ${ids.get(edge.child)}`);
+    if (cycleEdges.has(`${edge.child}\0${edge.parent}`)) {
+      cycleLinks.push(i);
+    }
+  });
+
+  lines.push("  classDef bundled fill:#e8f0fe,stroke:#4a6fa5");
+  lines.push("  classDef user fill:#e9f7ef,stroke:#3c8d5a");
+  lines.push("  classDef missing fill:#fdecea,stroke:#c0392b,stroke-dasharray:5 5");
+  if (cycleLinks.length > 0) {
+    lines.push(`  linkStyle ${cycleLinks.join(",")} stroke:#c0392b,stroke-width:2px`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Render the graph as Graphviz DOT (parent -> child)
+ */
+export function renderDot(graph: InheritanceGraph): string {
+  const cycleEdges = getCycleEdges(graph);
+  const attributes = {
+    bundled: 'style=filled, fillcolor="#e8f0fe"',
+    user: 'style=filled, fillcolor="#e9f7ef"',
+    missing: 'style="dashed", color="#c0392b", fontcolor="#c0392b"',
+  };
+  const lines = ["digraph inheritance {", "  rankdir=TB;", "  node [shape=box];"];
+
+  for (const node of graph.nodes) {
+    const label = node.missing ? `${node.id}\\n(missing)` : node.id;
+    lines.push(`  ${quote(node.id)} [label=${quote(label)}, ${attributes[nodeClass(node)]}];`);
+  }
+
+  for (const edge of graph.edges) {
+    const edgeAttributes = [
+      ...(edge.range ? [`label=${quote(edge.range)}`] : []),
+      ...(cycleEdges.has(`${edge.child}\0${edge.parent}`) ? ['color="#c0392b"'] : []),
+    ];
+    const suffix = edgeAttributes.length > 0 ? ` [${edgeAttributes.join(", ")}]` : "";
+    lines.push(`  ${quote(edge.parent)} -> ${quote(edge.child)}${suffix};`);
+  }
+
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * Children of a node, sorted by ID
+ */
+function childrenOf(graph: InheritanceGraph, id: string): string[] {
+  return [...new Set(graph.edges.filter((e) => e.parent === id).map((e) => e.child))].sort();
+}
+
+/**
+ * Find inheritance cycles by depth-first search along parent edges
+ */
+function findCycles(edges: GraphEdge[]): string[][] {
+  const parents = new Map<string, string[]>();
+  for (const edge of edges) {
+    parents.set(edge.child, [...(parents.get(edge.child) ?? []), edge.parent]);
+  }
+
+  const cycles = new Map<string, string[]>();
+  const done = new Set<string>();
+
+  const visit = (id: string, path: string[]): void => {
+    const index = path.indexOf(id);
+    if (index !== -1) {
+      // Rotate so the same cycle found from another node is recorded once
+      const cycle = path.slice(index);
+      const start = cycle.indexOf([...cycle].sort()[0]);
+      const rotated = [...cycle.slice(start), ...cycle.slice(0, start)];
+      cycles.set(rotated.join("\0"), [...rotated, rotated[0]]);
+      return;
+    }
+    if (done.has(id)) {
+      return;
+    }
+    for (const parent of parents.get(id) ?? []) {
+      visit(parent, [...path, id]);
+    }
+    done.add(id);
+  };
+
+  for (const id of [...parents.keys()].sort()) {
+    visit(id, []);
+  }
+
+  return [...cycles.values()];
+}
+
+/**
+ * Edges that are part of a cycle, keyed by child and parent
+ */
+function getCycleEdges(graph: InheritanceGraph): Set<string> {
+  const keys = new Set<string>();
+  for (const cycle of graph.cycles) {
+    for (let i = 0; i < cycle.length - 1; i++) {
+      keys.add(`${cycle[i]}\0${cycle[i + 1]}`);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Styling class of a node
+ */
+function nodeClass(node: GraphNode): "bundled" | "user" | "missing" {
+  return node.missing ? "missing" : node.bundled ? "bundled" : "user";
+}
+
+/**
+ * Quote a DOT identifier or label
+ */
+function quote(text: string): string {
+  return `"${text.replace(/"/g, '\\"')}"`;
+}
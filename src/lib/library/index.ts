@@ -2,13 +2,39 @@
  * Library management - handles configuration collections
  */
 
+import { readdir } from "fs/promises";
 import { join } from "path";
-import type { Configuration, SearchCriteria } from "../config/types.js";
+import type {
+  CloneOptions,
+  Configuration,
+  RemoveOptions,
+  RemoveResult,
+  SearchCriteria,
+} from "../config/types.js";
 import { loadConfiguration, loadMetadataOnly, listConfigDirectories } from "../config/loader.js";
-import { writeConfiguration, removeConfiguration } from "../config/writer.js";
-import { LIBRARY_PATH } from "../constants.js";
-import { ConfigNotFoundError, ConfigExistsError } from "../errors.js";
+import {
+  writeConfiguration,
+  writeMetadata,
+  moveConfiguration,
+  removeConfiguration,
+  updateTimestamps,
+} from "../config/writer.js";
+import { LIBRARY_PATH, HISTORY_DIRNAME, DEFAULTS } from "../constants.js";
+import {
+  ConfigNotFoundError,
+  ConfigExistsError,
+  ConfigHasDependentsError,
+  ConfigVersionNotFoundError,
+} from "../errors.js";
 import { ensureDirectory } from "../config/writer.js";
+import { satisfies, compareVersions } from "../config/semver.js";
+import {
+  formatParentRef,
+  getParentIds,
+  getParentRefs,
+  resolveInheritance,
+  resolveMetadata,
+} from "../config/resolver.js";
 
 /**
  * Library manager class
@@ -137,6 +163,30 @@ export class LibraryManager {
     throw new ConfigNotFoundError(id);
   }
 
+  /**
+   * Get a configuration with languages, project types, tags and testing
+   * approach inherited from its parents where it declares none
+   *
+   * Configurations whose parents cannot be resolved are returned as they are.
+   */
+  async withInheritedMetadata(config: Configuration): Promise<Configuration> {
+    if (!config.extends) {
+      return config;
+    }
+
+    try {
+      return await resolveMetadata(config, async (id, range) => {
+        try {
+          return await this.getConfigurationInRange(id, range);
+        } catch {
+          return undefined;
+        }
+      });
+    } catch {
+      return config;
+    }
+  }
+
   /**
    * Check if a configuration exists
    */
@@ -191,6 +241,80 @@ export class LibraryManager {
     this.configCache.delete(config.id);
   }
 
+  /**
+   * Copy a bundled or user configuration into an editable user configuration
+   *
+   * The copy starts at the default version with fresh timestamps and keeps the
+   * source's parents, files and per-file options. Only the source's own files
+   * are copied: the copy still extends the same parents and inherits their
+   * later changes, tracked or not. With `flatten`, the copy instead holds the
+   * resolved files of the whole inheritance chain and extends nothing.
+   */
+  async cloneConfiguration(
+    sourceId: string,
+    newId: string,
+    options: CloneOptions = {}
+  ): Promise<Configuration> {
+    const source = await this.getConfiguration(sourceId);
+    const copied = options.flatten ? await this.flattenConfiguration(source) : source;
+    const now = new Date();
+
+    const clone: Configuration = {
+      ...copied,
+      id: newId,
+      name: options.name ?? source.name,
+      version: DEFAULTS.VERSION,
+      created: now,
+      updated: now,
+      bundled: false,
+      sourcePath: join(this.libraryPath, newId),
+      forkedFrom: options.track ? `${source.id}@${source.version}` : undefined,
+    };
+
+    await this.initialize();
+    await this.addConfiguration(clone);
+    return clone;
+  }
+
+  /**
+   * Fold a configuration's parents into it
+   *
+   * Files are keyed by their destination and keep the merge strategies they
+   * resolved with; override and exclude no longer apply once nothing is
+   * inherited. Inherited languages, project types, tags and testing approach
+   * are written out.
+   */
+  private async flattenConfiguration(config: Configuration): Promise<Configuration> {
+    if (!config.extends) {
+      return config;
+    }
+
+    const resolved = await resolveInheritance(config, async (id, range) => {
+      try {
+        return await this.getConfigurationInRange(id, range);
+      } catch {
+        return undefined;
+      }
+    });
+    const { resolvedFiles } = resolved;
+    const fileOptions = Object.fromEntries(
+      resolvedFiles.filter((file) => file.merge).map((file) => [file.path, { merge: file.merge }])
+    );
+
+    return {
+      ...config,
+      projectTypes: resolved.projectTypes,
+      languages: resolved.languages,
+      tags: resolved.tags,
+      testingApproach: resolved.testingApproach,
+      extends: undefined,
+      files: resolvedFiles.map((file) => file.path),
+      fileContents: resolvedFiles,
+      fileOptions: Object.keys(fileOptions).length > 0 ? fileOptions : undefined,
+      merge: undefined,
+    };
+  }
+
   /**
    * List all configurations (alias for getAllConfigurations)
    */
@@ -209,22 +333,211 @@ export class LibraryManager {
     }
 
     const configPath = join(this.libraryPath, config.id);
+
+    // Keep the previous version in history when the version changes
+    const previous = await loadConfiguration(configPath);
+    if (previous.version !== config.version) {
+      await writeConfiguration(previous, this.getHistoryPath(config.id, previous.version));
+    }
+
     await writeConfiguration(config, configPath);
     this.configCache.delete(config.id);
   }
 
+  /**
+   * Get a specific version of a configuration (current or from history)
+   */
+  async getConfigurationVersion(id: string, version: string): Promise<Configuration> {
+    const current = await this.getConfiguration(id);
+    if (current.version === version) {
+      return current;
+    }
+
+    try {
+      const config = await loadConfiguration(this.getHistoryPath(id, version));
+      return { ...config, id, bundled: current.bundled };
+    } catch {
+      throw new ConfigVersionNotFoundError(id, version);
+    }
+  }
+
+  /**
+   * Get the newest version of a configuration that satisfies a semver range
+   *
+   * The current version is returned when it satisfies the range, or when no
+   * version in history does (so the caller can report the mismatch).
+   */
+  async getConfigurationInRange(id: string, range?: string): Promise<Configuration> {
+    const current = await this.getConfiguration(id);
+    if (!range || satisfies(current.version, range)) {
+      return current;
+    }
+
+    const [newest] = (await this.listConfigurationVersions(id))
+      .filter((version) => satisfies(version, range))
+      .sort((a, b) => compareVersions(b, a));
+    return newest ? this.getConfigurationVersion(id, newest) : current;
+  }
+
+  /**
+   * List versions of a configuration kept in library history
+   */
+  async listConfigurationVersions(id: string): Promise<string[]> {
+    try {
+      const entries = await readdir(join(this.libraryPath, HISTORY_DIRNAME, id), {
+        withFileTypes: true,
+      });
+      return entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Get configurations that extend a configuration directly
+   */
+  async getDependents(id: string): Promise<Configuration[]> {
+    const configs = await this.getAllConfigurations();
+    return configs.filter(
+      (config) =>
+        config.id !== id &&
+        getParentIds(config).includes(id) &&
+        // A user configuration shadows a bundled one with the same ID
+        !(config.bundled && configs.some((other) => !other.bundled && other.id === config.id))
+    );
+  }
+
+  /**
+   * Get configurations that extend a configuration directly or indirectly
+   */
+  async getAllDependents(id: string): Promise<Configuration[]> {
+    const found = new Map<string, Configuration>();
+    const pending = [id];
+
+    while (pending.length > 0) {
+      for (const dependent of await this.getDependents(pending.shift()!)) {
+        if (dependent.id !== id && !found.has(dependent.id)) {
+          found.set(dependent.id, dependent);
+          pending.push(dependent.id);
+        }
+      }
+    }
+
+    return [...found.values()];
+  }
+
   /**
    * Remove a configuration from the library
+   *
+   * Configurations that extend it are left broken unless handled: removal
+   * fails with ConfigHasDependentsError unless the dependents are removed too
+   * (cascade) or re-parented onto another configuration.
    */
-  async removeConfig(id: string): Promise<void> {
+  async removeConfig(id: string, options: RemoveOptions = {}): Promise<RemoveResult> {
     const config = await this.getConfiguration(id);
 
     if (config.bundled) {
       throw new Error(`Cannot remove bundled configuration "${id}"`);
     }
 
-    const configPath = join(this.libraryPath, id);
-    await removeConfiguration(configPath);
+    const result: RemoveResult = { removed: [], reparented: [] };
+    const dependents = await this.getDependents(id);
+
+    if (dependents.length > 0 && options.reparent !== undefined) {
+      const descendants = await this.getAllDependents(id);
+      if (options.reparent === id || descendants.some((d) => d.id === options.reparent)) {
+        throw new Error(`Cannot re-parent dependents of "${id}" onto "${options.reparent}"`);
+      }
+      await this.getConfiguration(options.reparent);
+      assertNotBundled(dependents, "update");
+
+      for (const dependent of dependents) {
+        await this.replaceParent(dependent, id, options.reparent, false);
+        result.reparented.push(dependent.id);
+      }
+    } else if (dependents.length > 0 && options.cascade) {
+      const descendants = await this.getAllDependents(id);
+      assertNotBundled(descendants, "remove");
+
+      for (const dependent of descendants.reverse()) {
+        await this.deleteConfig(dependent.id);
+        result.removed.push(dependent.id);
+      }
+    } else if (dependents.length > 0) {
+      throw new ConfigHasDependentsError(
+        id,
+        dependents.map((dependent) => dependent.id)
+      );
+    }
+
+    await this.deleteConfig(id);
+    result.removed.push(id);
+    return result;
+  }
+
+  /**
+   * Rename a configuration, moving its history and updating every configuration that extends it
+   *
+   * Returns the IDs of the updated dependents.
+   */
+  async renameConfig(id: string, newId: string): Promise<string[]> {
+    const config = await this.getConfiguration(id);
+
+    if (config.bundled) {
+      throw new Error(`Cannot rename bundled configuration "${id}"`);
+    }
+    if (await this.configurationExists(newId)) {
+      throw new ConfigExistsError(newId);
+    }
+
+    const dependents = await this.getDependents(id);
+    assertNotBundled(dependents, "update");
+
+    await moveConfiguration(join(this.libraryPath, id), join(this.libraryPath, newId));
+    if ((await this.listConfigurationVersions(id)).length > 0) {
+      await moveConfiguration(
+        join(this.libraryPath, HISTORY_DIRNAME, id),
+        join(this.libraryPath, HISTORY_DIRNAME, newId)
+      );
+    }
+    this.configCache.delete(id);
+
+    for (const dependent of dependents) {
+      await this.replaceParent(dependent, id, newId, true);
+    }
+
+    return dependents.map((dependent) => dependent.id);
+  }
+
+  /**
+   * Point a configuration's `extends` at a different parent
+   */
+  private async replaceParent(
+    config: Configuration,
+    fromId: string,
+    toId: string,
+    keepRange: boolean
+  ): Promise<void> {
+    const refs = getParentRefs(config).map((ref) =>
+      ref.id === fromId ? { id: toId, range: keepRange ? ref.range : undefined } : ref
+    );
+    // Drop a parent listed twice after the replacement
+    const unique = refs.filter((ref, i) => refs.findIndex((r) => r.id === ref.id) === i);
+    const parents = unique.map(formatParentRef);
+
+    await writeMetadata(
+      updateTimestamps({ ...config, extends: parents.length === 1 ? parents[0] : parents }),
+      join(this.libraryPath, config.id)
+    );
+    this.configCache.delete(config.id);
+  }
+
+  /**
+   * Delete a configuration and its history
+   */
+  private async deleteConfig(id: string): Promise<void> {
+    await removeConfiguration(join(this.libraryPath, id));
+    await removeConfiguration(join(this.libraryPath, HISTORY_DIRNAME, id));
     this.configCache.delete(id);
   }
 
@@ -242,7 +555,9 @@ export class LibraryManager {
       configs = await this.getAllConfigurations();
     }
 
-    return filterConfigurations(configs, criteria);
+    // Match on inherited metadata too
+    const resolved = await Promise.all(configs.map((config) => this.withInheritedMetadata(config)));
+    return filterConfigurations(resolved, criteria);
   }
 
   /**
@@ -259,6 +574,13 @@ export class LibraryManager {
     return this.libraryPath;
   }
 
+  /**
+   * Get the directory holding a historical version of a configuration
+   */
+  private getHistoryPath(id: string, version: string): string {
+    return join(this.libraryPath, HISTORY_DIRNAME, id, version);
+  }
+
   /**
    * Get the bundled path
    */
@@ -267,6 +589,17 @@ export class LibraryManager {
   }
 }
 
+/**
+ * Refuse to change bundled configurations, before anything is changed
+ */
+function assertNotBundled(configs: Configuration[], action: "remove" | "update"): void {
+  const bundled = configs.filter((config) => config.bundled);
+  if (bundled.length > 0) {
+    const ids = bundled.map((config) => `"${config.id}"`).join(", ");
+    throw new Error(`Cannot ${action} bundled configuration ${ids}`);
+  }
+}
+
 /**
  * Filter configurations by search criteria
  */
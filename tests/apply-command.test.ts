@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, mkdir, rm, writeFile, readFile, access } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { LibraryManager } from "../src/lib/library/index.js";
+import { readLockfile } from "../src/lib/apply/lockfile.js";
+import { program } from "../src/cli/index.js";
+import { EXIT_CODES } from "../src/lib/constants.js";
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe("apply command", () => {
+  let tempDir = "";
+  let projectPath = "";
+  let exit: ReturnType<typeof vi.spyOn>;
+  let errors: ReturnType<typeof vi.spyOn>;
+
+  const run = (...args: string[]) =>
+    program.parseAsync(["--library", join(tempDir, "library"), "apply", ...args], {
+      from: "user",
+    });
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "cpm-test-"));
+    projectPath = join(tempDir, "project");
+    await mkdir(projectPath);
+
+    await new LibraryManager(join(tempDir, "library")).createConfiguration(
+      {
+        id: "app",
+        name: "App",
+        description: "app",
+        version: "1.0.0",
+        projectTypes: ["api"],
+        languages: ["typescript"],
+        tags: [],
+        created: new Date(),
+        updated: new Date(),
+        files: ["notes.txt", "new.txt"],
+      },
+      {
+        "notes.txt": { content: "from config\n", type: "text" },
+        "new.txt": { content: "new\n", type: "text" },
+      }
+    );
+
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    errors = vi.spyOn(console, "error").mockImplementation(() => {});
+    exit = vi.spyOn(process, "exit").mockImplementation(() => undefined as never);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("fails on merge conflicts with --no-interactive before writing anything", async () => {
+    await writeFile(join(projectPath, "notes.txt"), "ours\n", "utf-8");
+
+    await run("app", projectPath, "--strategy", "merge", "--no-interactive");
+
+    expect(exit).toHaveBeenCalledWith(EXIT_CODES.CONFLICT);
+    expect(errors.mock.calls.flat().join("\n")).toContain(
+      "Merging left conflicts in notes.txt; no files were written."
+    );
+    expect(await readFile(join(projectPath, "notes.txt"), "utf-8")).toBe("ours\n");
+    expect(await exists(join(projectPath, "new.txt"))).toBe(false);
+    expect(await readLockfile(projectPath)).toBeUndefined();
+  });
+
+  it("reports a mistyped configuration instead of creating a directory for it", async () => {
+    vi.spyOn(process, "cwd").mockReturnValue(tempDir);
+    await run("app", "ap");
+
+    expect(exit).toHaveBeenCalledWith(EXIT_CODES.NOT_FOUND);
+    expect(errors.mock.calls.flat().join("\n")).toContain("ap");
+    expect(await exists(join(tempDir, "ap"))).toBe(false);
+  });
+
+  it("takes an existing directory or a path as the target", async () => {
+    vi.spyOn(process, "cwd").mockReturnValue(tempDir);
+    await run("app", "project");
+    await run("app", "./fresh");
+
+    expect(exit).not.toHaveBeenCalled();
+    expect(await readFile(join(projectPath, "new.txt"), "utf-8")).toBe("new\n");
+    expect(await readFile(join(tempDir, "fresh", "new.txt"), "utf-8")).toBe("new\n");
+  });
+});
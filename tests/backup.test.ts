@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, symlink, writeFile, readFile, access } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { applyConfiguration, applyWithResolvedConflicts } from "../src/lib/apply/index.js";
+import { listBackups, restoreBackup } from "../src/lib/apply/backup.js";
+import { readLockfile, readBaseContent } from "../src/lib/apply/lockfile.js";
+import type { Configuration } from "../src/lib/config/types.js";
+import { makeConfig } from "./helpers.js";
+
+const demo = (version: string, content: string) =>
+  makeConfig("demo", { "CLAUDE.md": content, "notes.md": "notes" }, { version });
+
+describe("apply backups", () => {
+  let tempDir = "";
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "cpm-test-"));
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  async function apply(config: Configuration): Promise<void> {
+    const result = await applyConfiguration(
+      config,
+      { configId: config.id, targetPath: tempDir, mode: "replace" },
+      async () => undefined
+    );
+    expect(result.success).toBe(true);
+    expect(result.backupId).toBeDefined();
+  }
+
+  it("restores replaced files and removes created ones", async () => {
+    await writeFile(join(tempDir, "CLAUDE.md"), "# Team notes", "utf-8");
+    await apply(demo("1.0.0", "# From config"));
+
+    const result = await restoreBackup(tempDir);
+
+    expect(result.errors).toEqual([]);
+    expect(await readFile(join(tempDir, "CLAUDE.md"), "utf-8")).toBe("# Team notes");
+    await expect(access(join(tempDir, "notes.md"))).rejects.toThrow();
+    await expect(access(join(tempDir, ".claude", "cpm-lock.json"))).rejects.toThrow();
+    expect(await listBackups(tempDir)).toEqual([]);
+  });
+
+  it("undoes later applies when restoring an earlier backup", async () => {
+    await writeFile(join(tempDir, "CLAUDE.md"), "# Team notes", "utf-8");
+    await apply(demo("1.0.0", "# v1"));
+    await new Promise((r) => setTimeout(r, 5));
+    await apply(demo("2.0.0", "# v2"));
+
+    const backups = await listBackups(tempDir);
+    expect(backups.map((b) => b.version)).toEqual(["2.0.0", "1.0.0"]);
+
+    await restoreBackup(tempDir, backups[1].id);
+
+    expect(await readFile(join(tempDir, "CLAUDE.md"), "utf-8")).toBe("# Team notes");
+    expect(await listBackups(tempDir)).toEqual([]);
+  });
+
+  it("restores the merge bases the restored lockfile refers to", async () => {
+    await apply(demo("1.0.0", "# v1"));
+    const lock = (await readLockfile(tempDir))!;
+    await new Promise((r) => setTimeout(r, 5));
+    await apply(demo("2.0.0", "# v2"));
+
+    const sourceHash = lock.files["CLAUDE.md"].sourceHash;
+    expect(await readBaseContent(tempDir, sourceHash)).toBeUndefined();
+
+    await restoreBackup(tempDir);
+
+    expect((await readLockfile(tempDir))!.version).toBe("1.0.0");
+    expect(await readBaseContent(tempDir, sourceHash)).toContain("# v1");
+  });
+
+  it("undoes the first pass when the resolved conflicts fail to write", async () => {
+    await writeFile(join(tempDir, "CLAUDE.md"), "# Team notes", "utf-8");
+    // A dangling link cannot hold a file
+    await symlink(join(tempDir, "missing"), join(tempDir, "blocked"));
+    const config = demo("1.0.0", "# From config");
+    const first = await applyConfiguration(
+      config,
+      { configId: config.id, targetPath: tempDir, mode: "create" },
+      async () => undefined
+    );
+    expect(first.filesCreated).toEqual(["notes.md"]);
+
+    const result = await applyWithResolvedConflicts(
+      [
+        { path: "CLAUDE.md", resolution: "replace", content: "# From config" },
+        { path: "blocked/notes.md", resolution: "replace", content: "x" },
+      ],
+      tempDir,
+      first.lock,
+      first.backupId
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.rolledBack).toBe(true);
+    expect(result.filesRestored).toContain("notes.md");
+    expect(result.backupId).toBeUndefined();
+    expect(await readFile(join(tempDir, "CLAUDE.md"), "utf-8")).toBe("# Team notes");
+    await expect(access(join(tempDir, "notes.md"))).rejects.toThrow();
+    expect(await readLockfile(tempDir)).toBeUndefined();
+    expect(await listBackups(tempDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, mkdir, writeFile, readFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { LibraryManager } from "../src/lib/library/index.js";
+import { resolveInheritance } from "../src/lib/config/resolver.js";
+import { ConfigExistsError } from "../src/lib/errors.js";
+import { CONFIG_FILENAME } from "../src/lib/constants.js";
+
+describe("cloning configurations", () => {
+  let tempDir = "";
+  let library: LibraryManager;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "cpm-test-"));
+    const bundledPath = join(tempDir, "bundled");
+    const sourcePath = join(bundledPath, "typescript-react");
+    await mkdir(join(sourcePath, ".claude"), { recursive: true });
+    await writeFile(
+      join(sourcePath, CONFIG_FILENAME),
+      [
+        "name: TypeScript React",
+        "description: React apps",
+        "version: 2.3.0",
+        "extends: typescript-base",
+        "projectTypes: [web]",
+        "languages: [typescript]",
+        "created: 2024-01-01T00:00:00.000Z",
+        "updated: 2024-06-01T00:00:00.000Z",
+        "files:",
+        "  - CLAUDE.md",
+        "  - path: .claude/settings.json",
+        "    override: true",
+        "",
+      ].join("\n"),
+      "utf-8"
+    );
+    await writeFile(join(sourcePath, "CLAUDE.md"), "# React\n", "utf-8");
+    await writeFile(join(sourcePath, ".claude/settings.json"), '{"a": 1}', "utf-8");
+
+    library = new LibraryManager(join(tempDir, "library"), bundledPath);
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("copies a bundled configuration into an editable user configuration", async () => {
+    await library.cloneConfiguration("typescript-react", "my-react", { track: true });
+    const clone = await library.getConfiguration("my-react");
+
+    expect(clone).toMatchObject({
+      name: "TypeScript React",
+      version: "1.0.0",
+      extends: "typescript-base",
+      bundled: false,
+      forkedFrom: "typescript-react@2.3.0",
+      fileOptions: { ".claude/settings.json": { override: true } },
+    });
+    expect(clone.created.getFullYear()).toBeGreaterThan(2024);
+    expect(await readFile(join(tempDir, "library/my-react/CLAUDE.md"), "utf-8")).toBe("# React\n");
+
+    await library.updateConfiguration({ ...clone, description: "Ours now" });
+    expect((await library.getConfiguration("my-react")).description).toBe("Ours now");
+  });
+
+  it("only records the source when asked and refuses existing IDs", async () => {
+    const clone = await library.cloneConfiguration("typescript-react", "plain", { name: "Plain" });
+
+    expect(clone.forkedFrom).toBeUndefined();
+    expect(await readFile(join(tempDir, "library/plain", CONFIG_FILENAME), "utf-8")).not.toContain(
+      "forkedFrom"
+    );
+    await expect(library.cloneConfiguration("plain", "typescript-react")).rejects.toThrow(
+      ConfigExistsError
+    );
+  });
+
+  async function addTeamConfigurations(): Promise<void> {
+    const meta = {
+      description: "d",
+      version: "1.0.0",
+      projectTypes: ["web" as const],
+      languages: ["typescript"],
+      tags: [],
+      created: new Date(),
+      updated: new Date(),
+      files: ["CLAUDE.md"],
+    };
+    await library.createConfiguration(
+      { ...meta, id: "team-base", name: "Team Base" },
+      { "CLAUDE.md": { content: "## Base\nv1\n", type: "markdown" } }
+    );
+    await library.createConfiguration(
+      { ...meta, id: "team-app", name: "Team App", extends: "team-base" },
+      { "CLAUDE.md": { content: "## App\n", type: "markdown" } }
+    );
+  }
+
+  it("keeps inheriting from the source's parents, including their later changes", async () => {
+    await addTeamConfigurations();
+
+    const clone = await library.cloneConfiguration("team-app", "my-app");
+    expect(clone.extends).toBe("team-base");
+
+    await writeFile(join(tempDir, "library/team-base/CLAUDE.md"), "## Base\nv2\n", "utf-8");
+    library.clearCache();
+    const resolved = await resolveInheritance(await library.getConfiguration("my-app"), (id) =>
+      library.getConfiguration(id)
+    );
+
+    expect(resolved.inheritanceChain).toEqual(["my-app", "team-base"]);
+    expect(resolved.resolvedFiles[0].content).toContain("## Base\nv2");
+  });
+
+  it("flattens the inheritance chain into the copy when asked", async () => {
+    await addTeamConfigurations();
+
+    const clone = await library.cloneConfiguration("team-app", "my-app", { flatten: true });
+    expect(clone.extends).toBeUndefined();
+    expect(await readFile(join(tempDir, "library/my-app", CONFIG_FILENAME), "utf-8")).not.toContain(
+      "extends"
+    );
+
+    await writeFile(join(tempDir, "library/team-base/CLAUDE.md"), "## Base\nv2\n", "utf-8");
+    library.clearCache();
+    const resolved = await resolveInheritance(await library.getConfiguration("my-app"), (id) =>
+      library.getConfiguration(id)
+    );
+
+    expect(resolved.inheritanceChain).toEqual(["my-app"]);
+    expect(resolved.resolvedFiles[0].content).toContain("## Base\nv1");
+    expect(resolved.resolvedFiles[0].content).toContain("## App");
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, mkdir, rm, writeFile, readFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { matchesPattern, loadStrategyRules } from "../src/lib/apply/strategy.js";
+import { applyConfiguration } from "../src/lib/apply/index.js";
+import { ConflictDetectedError, InvalidStrategyRulesError } from "../src/lib/errors.js";
+import type { ApplyOptions } from "../src/lib/config/types.js";
+import { makeConfig } from "./helpers.js";
+
+describe("matchesPattern", () => {
+  it("matches file names at any depth and globs by segment", () => {
+    expect(matchesPattern("packages/app/CLAUDE.md", "CLAUDE.md")).toBe(true);
+    expect(matchesPattern(".claude/settings.json", ".claude/*.json")).toBe(true);
+    expect(matchesPattern(".claude/hooks/a.json", ".claude/*.json")).toBe(false);
+    expect(matchesPattern("docs/a/b.md", "docs/**")).toBe(true);
+    expect(matchesPattern("b.md", "**/b.md")).toBe(true);
+    expect(matchesPattern("notes.txt", "*.md")).toBe(false);
+  });
+});
+
+describe("loadStrategyRules", () => {
+  let tempDir = "";
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "cpm-test-"));
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("reads patterns in order and rejects unknown strategies", async () => {
+    const rulesPath = join(tempDir, "rules.yaml");
+    await writeFile(rulesPath, 'CLAUDE.md: merge\n"docs/**": ours\n', "utf-8");
+    expect(await loadStrategyRules(rulesPath)).toEqual([
+      { pattern: "CLAUDE.md", strategy: "merge" },
+      { pattern: "docs/**", strategy: "ours" },
+    ]);
+
+    await writeFile(rulesPath, "CLAUDE.md: mine\n", "utf-8");
+    await expect(loadStrategyRules(rulesPath)).rejects.toThrow(InvalidStrategyRulesError);
+  });
+});
+
+describe("conflict strategies during apply", () => {
+  let tempDir = "";
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "cpm-test-"));
+    await mkdir(join(tempDir, ".claude"), { recursive: true });
+    await mkdir(join(tempDir, "docs"), { recursive: true });
+    await writeFile(join(tempDir, ".claude/settings.json"), '{"a": 0}', "utf-8");
+    await writeFile(join(tempDir, "docs/guide.md"), "# Guide\nOurs\n", "utf-8");
+    await writeFile(join(tempDir, "notes.txt"), "old notes\n", "utf-8");
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  const apply = (options: Partial<ApplyOptions>) =>
+    applyConfiguration(
+      makeConfig("demo", {
+        ".claude/settings.json": '{"a": 1, "b": 2}',
+        "docs/guide.md": "# Guide\nNew\n",
+        "notes.txt": "new notes\n",
+      }),
+      { configId: "demo", targetPath: tempDir, mode: "create", noInteractive: true, ...options },
+      async () => undefined
+    );
+
+  it("resolves each file by the first matching rule and records the resolution", async () => {
+    const result = await apply({
+      strategy: "theirs",
+      strategyRules: [
+        { pattern: "*.json", strategy: "merge" },
+        { pattern: "docs/**", strategy: "ours" },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.conflicts.map((c) => [c.path, c.resolution])).toEqual([
+      [".claude/settings.json", "merge"],
+      ["docs/guide.md", "keep"],
+      ["notes.txt", "replace"],
+    ]);
+    expect(JSON.parse(await readFile(join(tempDir, ".claude/settings.json"), "utf-8"))).toEqual({
+      a: 1,
+      b: 2,
+    });
+    expect(await readFile(join(tempDir, "docs/guide.md"), "utf-8")).toBe("# Guide\nOurs\n");
+    expect(await readFile(join(tempDir, "notes.txt"), "utf-8")).toBe("new notes\n");
+  });
+
+  it("fails without prompting only for files no rule covers", async () => {
+    const error = await apply({
+      strategyRules: [{ pattern: "*.json", strategy: "theirs" }],
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ConflictDetectedError);
+    expect((error as ConflictDetectedError).conflictingFiles).toEqual([
+      "docs/guide.md",
+      "notes.txt",
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { access, mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { editContent, getEditor } from "../src/cli/utils/editor.js";
+import { resolveInEditor } from "../src/cli/utils/conflict.js";
+import { EditorFailedError } from "../src/lib/errors.js";
+
+describe("editContent", () => {
+  const original = {
+    VISUAL: process.env.VISUAL,
+    EDITOR: process.env.EDITOR,
+    CPM_MARKER: process.env.CPM_MARKER,
+  };
+
+  afterEach(() => {
+    for (const [key, value] of Object.entries(original)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  });
+
+  it("prefers $VISUAL over $EDITOR", () => {
+    process.env.VISUAL = "code --wait";
+    process.env.EDITOR = "nano";
+    expect(getEditor()).toBe("code --wait");
+
+    delete process.env.VISUAL;
+    expect(getEditor()).toBe("nano");
+  });
+
+  it("returns the content saved by the editor", async () => {
+    delete process.env.VISUAL;
+    process.env.EDITOR = `sh -c 'sed -e "/^[<=>]\\{7\\}/d" "$0" > "$0.tmp" && mv "$0.tmp" "$0"'`;
+
+    const edited = await editContent(
+      "<<<<<<< EXISTING\nours\n=======\ntheirs\n>>>>>>> NEW\n",
+      "CLAUDE.md"
+    );
+
+    expect(edited).toBe("ours\ntheirs\n");
+  });
+
+  it("never runs a file name as shell commands", async () => {
+    const markerDir = await mkdtemp(join(tmpdir(), "cpm-test-"));
+    process.env.CPM_MARKER = join(markerDir, "ran");
+    delete process.env.VISUAL;
+    process.env.EDITOR = `sh -c 'printf edited > "$0"'`;
+
+    try {
+      const edited = await editContent(
+        "text",
+        'notes";touch "$CPM_MARKER";"$(touch "$CPM_MARKER")`touch "$CPM_MARKER"`.md'
+      );
+
+      expect(edited).toBe("edited");
+      await expect(access(process.env.CPM_MARKER)).rejects.toThrow();
+    } finally {
+      await rm(markerDir, { recursive: true, force: true });
+    }
+  });
+
+  it("fails when the editor exits with an error", async () => {
+    delete process.env.VISUAL;
+    process.env.EDITOR = "sh -c 'exit 3'";
+
+    await expect(editContent("text", "notes.md")).rejects.toBeInstanceOf(EditorFailedError);
+  });
+
+  it("leaves a conflict unresolved instead of failing when the editor exits with an error", async () => {
+    delete process.env.VISUAL;
+    process.env.EDITOR = "sh -c 'exit 3'";
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const edited = await resolveInEditor({
+      path: "notes.txt",
+      existingContent: "ours\n",
+      newContent: "theirs\n",
+    });
+
+    expect(edited).toBeUndefined();
+    expect(log.mock.calls.flat().join("\n")).toContain("Leaving notes.txt as it is.");
+    log.mockRestore();
+  });
+});
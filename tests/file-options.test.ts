@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile, readFile, mkdir } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { parse as parseYaml } from "yaml";
+import { loadConfiguration } from "../src/lib/config/loader.js";
+import { writeMetadata } from "../src/lib/config/writer.js";
+import { resolveInheritance } from "../src/lib/config/resolver.js";
+import { validateConfiguration } from "../src/lib/config/validator.js";
+import type { Configuration } from "../src/lib/config/types.js";
+import { CONFIG_FILENAME } from "../src/lib/constants.js";
+
+const metadata = `name: Child
+description: Child config
+version: 1.0.0
+extends: base
+projectTypes: [cli]
+languages: [typescript]
+files:
+  - CLAUDE.md
+  - path: .claude/settings.json
+    override: true
+    merge:
+      permissions.allow: replace
+  - path: docs/old.md
+    exclude: true
+  - path: templates/agents.md
+    target: AGENTS.md
+`;
+
+describe("per-file options in config.yaml", () => {
+  let tempDir = "";
+  let configPath = "";
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "cpm-test-"));
+    configPath = join(tempDir, "child");
+    await mkdir(join(configPath, ".claude"), { recursive: true });
+    await mkdir(join(configPath, "templates"), { recursive: true });
+    await writeFile(join(configPath, CONFIG_FILENAME), metadata, "utf-8");
+    await writeFile(join(configPath, "CLAUDE.md"), "# Child\n", "utf-8");
+    await writeFile(join(configPath, ".claude/settings.json"), '{"b": 2}', "utf-8");
+    await writeFile(join(configPath, "templates/agents.md"), "# Agents\n", "utf-8");
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("loads object entries without reading excluded files", async () => {
+    const config = await loadConfiguration(configPath);
+
+    expect(config.files).toEqual([
+      "CLAUDE.md",
+      ".claude/settings.json",
+      "docs/old.md",
+      "templates/agents.md",
+    ]);
+    expect(config.fileOptions).toEqual({
+      ".claude/settings.json": { override: true, merge: { "permissions.allow": "replace" } },
+      "docs/old.md": { exclude: true },
+      "templates/agents.md": { target: "AGENTS.md" },
+    });
+    expect(config.fileContents.find((f) => f.path === "docs/old.md")).toMatchObject({
+      content: "",
+      exclude: true,
+    });
+    expect(validateConfiguration(config).errors).toEqual([]);
+  });
+
+  it("applies the options when resolving inheritance", async () => {
+    const child = await loadConfiguration(configPath);
+    const base: Configuration = {
+      ...child,
+      id: "base",
+      extends: undefined,
+      fileOptions: undefined,
+      files: [".claude/settings.json", "docs/old.md", "AGENTS.md"],
+      fileContents: [
+        { path: ".claude/settings.json", content: '{"a": 1}', type: "json" },
+        { path: "docs/old.md", content: "# Old\n", type: "markdown" },
+        { path: "AGENTS.md", content: "# Base agents\n", type: "markdown" },
+      ],
+    };
+
+    const resolved = await resolveInheritance(child, async (id) =>
+      id === "base" ? base : undefined
+    );
+    const files = Object.fromEntries(resolved.resolvedFiles.map((f) => [f.path, f.content]));
+
+    expect(Object.keys(files).sort()).toEqual([".claude/settings.json", "AGENTS.md", "CLAUDE.md"]);
+    expect(files[".claude/settings.json"]).toBe('{"b": 2}');
+    expect(files["AGENTS.md"]).toBe("# Base agents\n\n# Agents");
+  });
+
+  it("writes options back as object entries", async () => {
+    const config = await loadConfiguration(configPath);
+    await writeMetadata(config, configPath);
+
+    const written = parseYaml(await readFile(join(configPath, CONFIG_FILENAME), "utf-8"));
+    expect(written.files).toEqual([
+      "CLAUDE.md",
+      {
+        path: ".claude/settings.json",
+        override: true,
+        merge: { "permissions.allow": "replace" },
+      },
+      { path: "docs/old.md", exclude: true },
+      { path: "templates/agents.md", target: "AGENTS.md" },
+    ]);
+  });
+
+  it("rejects conflicting flags and unsafe targets", async () => {
+    const config = await loadConfiguration(configPath);
+    config.fileOptions = {
+      "CLAUDE.md": { override: true, exclude: true },
+      "templates/agents.md": { target: "../AGENTS.md" },
+    };
+
+    expect(validateConfiguration(config).errors).toEqual([
+      "File cannot be both overridden and excluded: CLAUDE.md",
+      "Target path cannot traverse up: templates/agents.md → ../AGENTS.md",
+    ]);
+  });
+});
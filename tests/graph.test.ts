@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildInheritanceGraph,
+  renderAsciiTree,
+  renderDot,
+  renderMermaid,
+} from "../src/lib/library/graph.js";
+import { makeConfig } from "./helpers.js";
+
+const config = (id: string, parents: string[] = [], bundled = false) =>
+  makeConfig(id, [], {
+    extends: parents.length === 0 ? undefined : parents.length === 1 ? parents[0] : parents,
+    bundled,
+  });
+
+const configs = [
+  config("base", [], true),
+  config("typescript-base", ["base"], true),
+  config("vitest-mixin", ["base"]),
+  config("app", ["typescript-base@^1.0", "vitest-mixin"]),
+  config("orphan", ["gone"]),
+  config("loop-a", ["loop-b"]),
+  config("loop-b", ["loop-a"]),
+];
+
+describe("inheritance graph", () => {
+  it("records edges, missing parents and cycles", () => {
+    const graph = buildInheritanceGraph(configs);
+
+    expect(graph.edges).toContainEqual({ child: "app", parent: "typescript-base", range: "^1.0" });
+    expect(graph.missing).toEqual(["gone"]);
+    expect(graph.nodes.find((n) => n.id === "gone")).toMatchObject({ missing: true });
+    expect(graph.cycles).toEqual([["loop-a", "loop-b", "loop-a"]]);
+  });
+
+  it("renders an ASCII tree with shared children expanded once", () => {
+    expect(renderAsciiTree(buildInheritanceGraph(configs))).toBe(
+      [
+        "base v1.0.0 [bundled]",
+        "├── typescript-base v1.0.0 [bundled]",
+        "│   └── app v1.0.0",
+        "└── vitest-mixin v1.0.0",
+        "    └── app v1.0.0 (see above)",
+        "gone (missing)",
+        "└── orphan v1.0.0",
+        "loop-a v1.0.0 (cycle)",
+        "└── loop-b v1.0.0 (cycle)",
+        "    └── loop-a v1.0.0 (cycle) (see above)",
+      ].join("\n")
+    );
+  });
+
+  it("renders Mermaid and DOT with bundled, user and missing nodes", () => {
+    const graph = buildInheritanceGraph(configs.slice(0, 5));
+
+    const mermaid = renderMermaid(graph);
+    expect(mermaid).toContain('n1["base"]:::bundled');
+    expect(mermaid).toContain('n3["orphan"]:::user');
+    expect(mermaid).toContain('n2["gone"]:::missing');
+    expect(mermaid).toContain('n4 -->|"^1.0"| n0');
+
+    const dot = renderDot(graph);
+    expect(dot).toContain('"typescript-base" -> "app" [label="^1.0"];');
+    expect(dot).toContain('"gone" [label="gone\\n(missing)", style="dashed"');
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Shared test fixtures
+ */
+
+import { getFileType } from "../src/lib/constants.js";
+import type { Configuration, ConfigurationFile } from "../src/lib/config/types.js";
+
+/**
+ * Build a configuration holding the given files
+ *
+ * Files are given as path to content (typed by extension) or as full
+ * ConfigurationFile entries; `files` lists their paths.
+ */
+export function makeConfig(
+  id: string,
+  files: Record<string, string> | ConfigurationFile[] = [],
+  overrides: Partial<Configuration> = {}
+): Configuration {
+  const fileContents = Array.isArray(files)
+    ? files
+    : Object.entries(files).map(([path, content]) => ({
+        path,
+        content,
+        type: getFileType(path),
+      }));
+
+  return {
+    id,
+    name: id,
+    description: id,
+    version: "1.0.0",
+    projectTypes: ["library"],
+    languages: ["typescript"],
+    tags: [],
+    created: new Date(),
+    updated: new Date(),
+    files: fileContents.map((f) => f.path),
+    fileContents,
+    ...overrides,
+  };
+}
+
+/**
+ * Parent loader that finds nothing
+ */
+export const noParents = async (): Promise<undefined> => undefined;
+
+/**
+ * Parent loader over a fixed set of configurations
+ */
+export function parentsFrom(configs: Configuration[]) {
+  const byId = new Map(configs.map((c) => [c.id, c]));
+  return async (id: string): Promise<Configuration | undefined> => byId.get(id);
+}
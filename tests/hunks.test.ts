@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { splitConflict } from "../src/lib/apply/hunks.js";
+
+describe("splitConflict", () => {
+  it("splits markdown by section and assembles the chosen bodies", () => {
+    const existing = "# Guide\n\n## Testing\nUse jest\n\n## Style\nTabs\n\n## Team\nOurs\n";
+    const incoming = "# Guide\n\n## Testing\nUse vitest\n\n## Style\nSpaces\n\n## Deploy\nCI\n";
+
+    const { hunks, assemble } = splitConflict(existing, incoming, "CLAUDE.md");
+
+    expect(hunks.map((h) => [h.label, h.ours, h.theirs])).toEqual([
+      ["## Testing", "Use jest", "Use vitest"],
+      ["## Style", "Tabs", "Spaces"],
+    ]);
+    expect(assemble(["theirs", "both"])).toBe(
+      "# Guide\n\n## Testing\nUse vitest\n\n## Style\nTabs\n\nSpaces\n\n## Deploy\nCI\n\n## Team\nOurs"
+    );
+  });
+
+  it("keeps managed region markers out of the hunks", () => {
+    const existing = [
+      "# Notes",
+      "Ours",
+      "",
+      "<!-- cpm:begin app -->",
+      "## Testing",
+      "Use jest",
+      "",
+      "## Style",
+      "Tabs",
+      "<!-- cpm:end -->",
+      "",
+      "## Local",
+      "Kept",
+      "",
+    ].join("\n");
+    const incoming = [
+      "<!-- cpm:begin app -->",
+      "## Testing",
+      "Use vitest",
+      "",
+      "## Style",
+      "Spaces",
+      "<!-- cpm:end -->",
+      "",
+    ].join("\n");
+
+    const { hunks, assemble } = splitConflict(existing, incoming, "CLAUDE.md");
+
+    expect(hunks.map((h) => [h.label, h.ours, h.theirs])).toEqual([
+      ["## Testing", "Use jest", "Use vitest"],
+      ["## Style", "Tabs", "Spaces"],
+    ]);
+    expect(assemble(["theirs", "ours"])).toBe(
+      [
+        "# Notes",
+        "Ours",
+        "",
+        "<!-- cpm:begin app -->",
+        "## Testing",
+        "Use vitest",
+        "",
+        "## Style",
+        "Tabs",
+        "<!-- cpm:end -->",
+        "",
+        "## Local",
+        "Kept",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("splits JSON by key path and only combines arrays", () => {
+    const existing = JSON.stringify({
+      model: "opus",
+      permissions: { allow: ["a"] },
+      env: { A: "1" },
+    });
+    const incoming = JSON.stringify({ model: "sonnet", permissions: { allow: ["b"] }, hooks: {} });
+
+    const { hunks, assemble } = splitConflict(existing, incoming, ".claude/settings.json");
+
+    expect(hunks.map((h) => [h.label, h.combinable])).toEqual([
+      ["model", false],
+      ["permissions.allow", true],
+    ]);
+    expect(JSON.parse(assemble(["ours", "both"]))).toEqual({
+      model: "opus",
+      permissions: { allow: ["a", "b"] },
+      env: { A: "1" },
+      hooks: {},
+    });
+  });
+
+  it("splits other files by diff hunk", () => {
+    const existing = "one\ntwo\nthree\nfour\n";
+    const incoming = "one\n2\nthree\nfour\nfive\n";
+
+    const { hunks, assemble } = splitConflict(existing, incoming, "notes.txt");
+
+    expect(hunks.map((h) => [h.label, h.ours, h.theirs])).toEqual([
+      ["Line 2", "two", "2"],
+      ["Line 5", "", "five"],
+    ]);
+    expect(assemble(["both", "ours"])).toBe("one\ntwo\n2\nthree\nfour\n");
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { resolveInheritance } from "../src/lib/config/resolver.js";
+import { validateInheritanceChain } from "../src/lib/config/validator.js";
+import { InheritanceCycleError, InheritanceOrderError } from "../src/lib/errors.js";
+import { makeConfig, parentsFrom } from "./helpers.js";
+
+const config = (id: string, parents: string[], claudeMd: string) =>
+  makeConfig(
+    id,
+    { "CLAUDE.md": claudeMd },
+    { extends: parents.length === 1 ? parents[0] : parents }
+  );
+
+describe("multiple inheritance", () => {
+  const base = config("base", [], "## Style\nBase\n\n## Testing\nBase\n");
+  const typescript = config("typescript-base", ["base"], "## Style\nPrettier\n");
+  const vitest = config("vitest-mixin", ["base"], "## Testing\nVitest\n");
+
+  it("linearizes a diamond with later parents taking precedence", async () => {
+    const app = config("app", ["typescript-base", "vitest-mixin"], "## App\nRules\n");
+    const resolved = await resolveInheritance(app, parentsFrom([base, typescript, vitest]));
+
+    expect(resolved.inheritanceChain).toEqual(["app", "vitest-mixin", "typescript-base", "base"]);
+    expect(resolved.resolvedFiles[0].content).toBe(
+      "## Style\nPrettier\n\n## Testing\nVitest\n\n## App\nRules"
+    );
+  });
+
+  it("reports cycles and inconsistent parent orders", async () => {
+    const a = config("a", ["b"], "A");
+    const b = config("b", ["a"], "B");
+    await expect(resolveInheritance(a, parentsFrom([a, b]))).rejects.toThrow(InheritanceCycleError);
+
+    const x = config("x", ["typescript-base", "base"], "X");
+    const y = config("y", ["base", "typescript-base"], "Y");
+    const z = config("z", ["x", "y"], "Z");
+    await expect(resolveInheritance(z, parentsFrom([base, typescript, x, y]))).rejects.toThrow(
+      InheritanceOrderError
+    );
+  });
+
+  it("validates every parent without flagging shared ancestors", () => {
+    const parents: Record<string, string[]> = {
+      app: ["typescript-base", "vitest-mixin"],
+      "typescript-base": ["base"],
+      "vitest-mixin": ["base"],
+    };
+    expect(validateInheritanceChain("app", (id) => parents[id] ?? []).valid).toBe(true);
+
+    parents.base = ["vitest-mixin"];
+    expect(validateInheritanceChain("app", (id) => parents[id] ?? []).errors).toEqual([
+      "Circular inheritance detected: app → typescript-base → base → vitest-mixin → base",
+      "Circular inheritance detected: app → vitest-mixin → base → vitest-mixin",
+    ]);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { mergeJsonValues, extractMergeDirectives } from "../src/lib/config/json-merge.js";
+import { resolveInheritance } from "../src/lib/config/resolver.js";
+import { mergeContent, mergeThreeWay } from "../src/lib/apply/merger.js";
+import type { Configuration } from "../src/lib/config/types.js";
+import { makeConfig } from "./helpers.js";
+
+const settingsConfig = (id: string, settings: unknown, extra: Partial<Configuration> = {}) =>
+  makeConfig(id, { ".claude/settings.json": JSON.stringify(settings) }, extra);
+
+describe("mergeJsonValues", () => {
+  it("unions arrays and merges objects by default", () => {
+    const merged = mergeJsonValues({ a: [1, 2], b: { c: 1 } }, { a: [2, 3], b: { d: 2 } });
+
+    expect(merged).toEqual({ a: [1, 2, 3], b: { c: 1, d: 2 } });
+  });
+
+  it("applies per-path strategies, including wildcards", () => {
+    const merged = mergeJsonValues(
+      { allow: ["a"], deny: ["x"], hooks: { pre: ["p"], post: ["q"] }, model: "opus" },
+      { allow: ["b"], deny: ["y"], hooks: { pre: ["p"], post: ["r"] }, model: "sonnet" },
+      { allow: "replace", deny: "prepend", "hooks.*": "append", model: "keep" }
+    );
+
+    expect(merged).toEqual({
+      allow: ["b"],
+      deny: ["y", "x"],
+      hooks: { pre: ["p", "p"], post: ["q", "r"] },
+      model: "opus",
+    });
+  });
+});
+
+describe("extractMergeDirectives", () => {
+  it("strips inline directives and returns them as rules", () => {
+    const { value, rules } = extractMergeDirectives({
+      permissions: { $merge: { allow: "replace" }, allow: ["a"] },
+      env: { $merge: "keep", DEBUG: "1" },
+    });
+
+    expect(value).toEqual({ permissions: { allow: ["a"] }, env: { DEBUG: "1" } });
+    expect(rules).toEqual({ "permissions.allow": "replace", env: "keep" });
+  });
+});
+
+describe("merge strategies during resolution", () => {
+  it("honors metadata rules and inline directives across the chain", async () => {
+    const parent = settingsConfig("parent", {
+      permissions: { allow: ["Bash(npm test)"], deny: ["Read(.env)"] },
+    });
+    const child = settingsConfig(
+      "child",
+      {
+        $merge: { "permissions.deny": "prepend" },
+        permissions: { allow: ["Bash(make)"], deny: ["Read(secrets)"] },
+      },
+      { extends: "parent", merge: { ".claude/settings.json": { "permissions.allow": "replace" } } }
+    );
+
+    const resolved = await resolveInheritance(child, async (id) =>
+      id === "parent" ? parent : undefined
+    );
+    const settings = resolved.resolvedFiles[0];
+
+    expect(JSON.parse(settings.content)).toEqual({
+      permissions: { allow: ["Bash(make)"], deny: ["Read(secrets)", "Read(.env)"] },
+    });
+    expect(settings.merge).toEqual({
+      "permissions.allow": "replace",
+      "permissions.deny": "prepend",
+    });
+  });
+});
+
+describe("merge strategies during apply", () => {
+  it("follows rules when merging into a project file", () => {
+    const existing = JSON.stringify({ model: "opus", env: { A: "1" } });
+    const incoming = JSON.stringify({ model: "sonnet", env: { B: "2" } });
+
+    const result = mergeContent(existing, incoming, ".claude/settings.json", { model: "keep" });
+
+    expect(result.hasConflicts).toBe(false);
+    expect(JSON.parse(result.content)).toEqual({ model: "opus", env: { A: "1", B: "2" } });
+  });
+
+  it("resolves both-sides changes by strategy in three-way merges", () => {
+    const base = JSON.stringify({ model: "haiku", theme: "dark" });
+    const existing = JSON.stringify({ model: "opus", theme: "light" });
+    const incoming = JSON.stringify({ model: "sonnet", theme: "solarized" });
+
+    const result = mergeThreeWay(base, existing, incoming, "settings.json", {
+      model: "replace",
+      theme: "keep",
+    });
+
+    expect(result.hasConflicts).toBe(false);
+    expect(JSON.parse(result.content)).toEqual({ model: "sonnet", theme: "light" });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, readFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { resolveLayers } from "../src/lib/config/resolver.js";
+import { applyConfiguration } from "../src/lib/apply/index.js";
+import { readLockfile } from "../src/lib/apply/lockfile.js";
+import { makeConfig } from "./helpers.js";
+
+const base = makeConfig("node-base", [
+  { path: "CLAUDE.md", content: "## Style\nTabs\n", type: "markdown" },
+]);
+const language = makeConfig(
+  "typescript-node",
+  [
+    { path: "CLAUDE.md", content: "## Testing\nUse vitest\n", type: "markdown" },
+    {
+      path: ".claude/settings.json",
+      content: '{"permissions": {"allow": ["Bash(npm test)"]}}',
+      type: "json",
+    },
+  ],
+  { extends: "node-base" }
+);
+const security = makeConfig(
+  "security-baseline",
+  [
+    {
+      path: "CLAUDE.md",
+      content: "## Style\nSpaces\n\n## Secrets\nNever commit .env\n",
+      type: "markdown",
+    },
+    {
+      path: ".claude/settings.json",
+      content: '{"permissions": {"deny": ["Read(.env)"]}}',
+      type: "json",
+    },
+  ],
+  { version: "2.0.0", languages: ["python"] }
+);
+
+const getConfig = async (id: string) => (id === "node-base" ? base : undefined);
+
+describe("resolveLayers", () => {
+  it("resolves each layer's inheritance and merges layers in order", async () => {
+    const resolved = await resolveLayers([language, security], getConfig);
+
+    expect(resolved.id).toBe("typescript-node+security-baseline");
+    expect(resolved.version).toBe("1.0.0+2.0.0");
+    expect(resolved.layers).toEqual(["typescript-node", "security-baseline"]);
+    expect(resolved.inheritanceChain).toEqual([
+      "typescript-node",
+      "node-base",
+      "security-baseline",
+    ]);
+    expect(resolved.languages).toEqual(["typescript", "python"]);
+
+    const files = Object.fromEntries(resolved.resolvedFiles.map((f) => [f.path, f.content]));
+    expect(files["CLAUDE.md"]).toBe(
+      "## Style\nSpaces\n\n## Secrets\nNever commit .env\n\n## Testing\nUse vitest"
+    );
+    expect(JSON.parse(files[".claude/settings.json"])).toEqual({
+      permissions: { allow: ["Bash(npm test)"], deny: ["Read(.env)"] },
+    });
+  });
+
+  it("resolves a single configuration as usual", async () => {
+    const resolved = await resolveLayers([language], getConfig);
+
+    expect(resolved.id).toBe("typescript-node");
+    expect(resolved.layers).toBeUndefined();
+  });
+});
+
+describe("applying layers", () => {
+  let tempDir = "";
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "cpm-test-"));
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("applies the composed layers in one pass with one lockfile", async () => {
+    const result = await applyConfiguration(
+      [language, security],
+      { configId: "typescript-node+security-baseline", targetPath: tempDir, mode: "create" },
+      getConfig
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.filesCreated.sort()).toEqual([".claude/settings.json", "CLAUDE.md"]);
+
+    const claudeMd = await readFile(join(tempDir, "CLAUDE.md"), "utf-8");
+    expect(claudeMd.startsWith("<!-- cpm:begin typescript-node+security-baseline -->")).toBe(true);
+
+    const lock = await readLockfile(tempDir);
+    expect(lock?.configId).toBe("typescript-node+security-baseline");
+    expect(lock?.layers).toEqual(["typescript-node", "security-baseline"]);
+  });
+});
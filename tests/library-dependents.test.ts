@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, access } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { LibraryManager } from "../src/lib/library/index.js";
+import { ConfigHasDependentsError } from "../src/lib/errors.js";
+import { HISTORY_DIRNAME } from "../src/lib/constants.js";
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe("removing and renaming configurations with dependents", () => {
+  let tempDir = "";
+  let library: LibraryManager;
+
+  const create = (id: string, parents?: string | string[]) =>
+    library.createConfiguration(
+      {
+        id,
+        name: id,
+        description: id,
+        version: "1.0.0",
+        extends: parents,
+        projectTypes: ["library"],
+        languages: ["typescript"],
+        tags: [],
+        created: new Date(),
+        updated: new Date(),
+        files: ["CLAUDE.md"],
+      },
+      { "CLAUDE.md": { content: `# ${id}\n`, type: "markdown" } }
+    );
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "cpm-test-"));
+    library = new LibraryManager(tempDir);
+    await create("base");
+    await create("other");
+    await create("typescript-base", "base@^1.0");
+    await create("app", ["other", "typescript-base"]);
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("refuses to remove a configuration that others extend", async () => {
+    await expect(library.removeConfig("base")).rejects.toThrow(ConfigHasDependentsError);
+    expect(await exists(join(tempDir, "base"))).toBe(true);
+  });
+
+  it("removes dependents with cascade", async () => {
+    const result = await library.removeConfig("base", { cascade: true });
+
+    expect(result.removed).toEqual(["app", "typescript-base", "base"]);
+    expect((await library.getAllConfigurations()).map((c) => c.id)).toEqual(["other"]);
+  });
+
+  it("re-parents direct dependents", async () => {
+    const result = await library.removeConfig("typescript-base", { reparent: "base" });
+
+    expect(result).toEqual({ removed: ["typescript-base"], reparented: ["app"] });
+    expect((await library.getConfiguration("app")).extends).toEqual(["other", "base"]);
+    await expect(library.removeConfig("base", { reparent: "app" })).rejects.toThrow(
+      'Cannot re-parent dependents of "base" onto "app"'
+    );
+  });
+
+  it("renames a configuration, its history and every reference to it", async () => {
+    const base = await library.getConfiguration("base");
+    await library.updateConfiguration({ ...base, version: "1.1.0" });
+
+    expect(await library.renameConfig("base", "core")).toEqual(["typescript-base"]);
+
+    expect(await exists(join(tempDir, "base"))).toBe(false);
+    expect((await library.getConfiguration("core")).version).toBe("1.1.0");
+    expect(await library.listConfigurationVersions("core")).toEqual(["1.0.0"]);
+    expect(await exists(join(tempDir, HISTORY_DIRNAME, "base"))).toBe(false);
+    expect((await library.getConfiguration("typescript-base")).extends).toBe("core@^1.0");
+  });
+});
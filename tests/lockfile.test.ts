@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile, readFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { applyConfiguration, applyWithResolvedConflicts } from "../src/lib/apply/index.js";
+import { readLockfile, hashContent, LOCKFILE_PATH } from "../src/lib/apply/lockfile.js";
+import { getProjectStatus } from "../src/lib/apply/status.js";
+import { planUnapply } from "../src/lib/apply/unapply.js";
+import { resolveInheritance } from "../src/lib/config/resolver.js";
+import type { Configuration } from "../src/lib/config/types.js";
+import { makeConfig } from "./helpers.js";
+
+const child = (overrides: Partial<Configuration> = {}) =>
+  makeConfig(
+    "child",
+    { "CLAUDE.md": "# Child\n" },
+    { name: "Child", version: "1.2.0", extends: "base", ...overrides }
+  );
+
+const base = child({
+  id: "base",
+  name: "Base",
+  version: "1.0.0",
+  extends: undefined,
+  files: [".claude/settings.json"],
+  fileContents: [{ path: ".claude/settings.json", content: '{"a": 1}', type: "json" }],
+});
+
+describe("apply lockfile", () => {
+  let tempDir = "";
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "cpm-test-"));
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("records config id, version, inheritance chain and file hashes", async () => {
+    const config = child();
+    const result = await applyConfiguration(
+      config,
+      { configId: config.id, targetPath: tempDir, mode: "create" },
+      async (id) => (id === "base" ? base : undefined)
+    );
+
+    expect(result.success).toBe(true);
+
+    const lock = await readLockfile(tempDir);
+    expect(lock).toBeDefined();
+    expect(lock!.configId).toBe("child");
+    expect(lock!.version).toBe("1.2.0");
+    expect(lock!.inheritanceChain).toEqual(["child", "base"]);
+    expect(Object.keys(lock!.files).sort()).toEqual([".claude/settings.json", "CLAUDE.md"]);
+
+    const written = await readFile(join(tempDir, "CLAUDE.md"), "utf-8");
+    expect(lock!.files["CLAUDE.md"].hash).toBe(hashContent(written));
+  });
+
+  it("does not write a lockfile on dry run", async () => {
+    const config = child();
+    await applyConfiguration(
+      config,
+      { configId: config.id, targetPath: tempDir, mode: "create", dryRun: true },
+      async (id) => (id === "base" ? base : undefined)
+    );
+
+    expect(await readLockfile(tempDir)).toBeUndefined();
+  });
+
+  it("defers the lockfile until conflicts are resolved", async () => {
+    await writeFile(join(tempDir, "CLAUDE.md"), "# Existing\n", "utf-8");
+    const config = child({ extends: undefined });
+
+    const result = await applyConfiguration(
+      config,
+      { configId: config.id, targetPath: tempDir, mode: "create" },
+      async () => undefined
+    );
+
+    expect(result.conflicts.length).toBe(1);
+    expect(await readLockfile(tempDir)).toBeUndefined();
+
+    await applyWithResolvedConflicts(
+      [{ path: "CLAUDE.md", resolution: "replace", content: "# Child\n" }],
+      tempDir,
+      result.lock
+    );
+
+    const lock = await readLockfile(tempDir);
+    expect(lock!.files["CLAUDE.md"]).toEqual({
+      hash: hashContent("# Child\n"),
+      sourceHash: hashContent(result.conflicts[0].newContent),
+    });
+    expect(LOCKFILE_PATH).toBe(join(".claude", "cpm-lock.json"));
+  });
+
+  it("records kept and skipped files so they show as unchanged", async () => {
+    await writeFile(join(tempDir, "CLAUDE.md"), "# Existing\n", "utf-8");
+    await writeFile(join(tempDir, "AGENTS.md"), "# Ours\n", "utf-8");
+    const config = child({
+      extends: undefined,
+      files: ["CLAUDE.md", "AGENTS.md"],
+      fileContents: [
+        { path: "CLAUDE.md", content: "# Child\n", type: "markdown" },
+        { path: "AGENTS.md", content: "# Agents\n", type: "markdown" },
+      ],
+    });
+
+    const result = await applyConfiguration(
+      config,
+      {
+        configId: config.id,
+        targetPath: tempDir,
+        mode: "create",
+        strategyRules: [{ pattern: "AGENTS.md", strategy: "ours" }],
+      },
+      async () => undefined
+    );
+    await applyWithResolvedConflicts(
+      [{ path: "CLAUDE.md", resolution: "skip", content: "" }],
+      tempDir,
+      result.lock
+    );
+
+    const lock = (await readLockfile(tempDir))!;
+    expect(lock.files["CLAUDE.md"]).toEqual({
+      hash: hashContent("# Existing\n"),
+      sourceHash: hashContent(result.conflicts.find((c) => c.path === "CLAUDE.md")!.newContent),
+      kept: true,
+    });
+    expect(lock.files["AGENTS.md"]).toMatchObject({ hash: hashContent("# Ours\n"), kept: true });
+
+    const resolved = await resolveInheritance(config, async () => undefined);
+    const status = await getProjectStatus(tempDir, lock, resolved);
+    expect(status.drifted).toBe(false);
+
+    const unapply = await planUnapply(tempDir, resolved, lock);
+    expect(unapply.files.map((f) => f.action)).toEqual(["untouched", "untouched"]);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile, readFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  wrapManagedRegion,
+  findManagedRegions,
+  replaceManagedRegion,
+  removeManagedRegion,
+} from "../src/lib/apply/managed-regions.js";
+import { mergeContent, unmergeContent } from "../src/lib/apply/merger.js";
+import { applyConfiguration } from "../src/lib/apply/index.js";
+import { detectExistingConfig } from "../src/lib/apply/detector.js";
+import { makeConfig, noParents } from "./helpers.js";
+
+describe("managed regions", () => {
+  const team = "# Team notes\nKeep PRs small\n";
+
+  it("wraps content once and finds regions by ID", () => {
+    const block = wrapManagedRegion("demo", "## Testing\nUse vitest\n");
+
+    expect(block).toBe("<!-- cpm:begin demo -->\n## Testing\nUse vitest\n<!-- cpm:end -->\n");
+    expect(wrapManagedRegion("demo", block)).toBe(block);
+    expect(findManagedRegions(`${team}\n${block}`)).toEqual([
+      { id: "demo", content: "## Testing\nUse vitest", startLine: 3, endLine: 6 },
+    ]);
+  });
+
+  it("replaces only the region and appends it when missing", () => {
+    const oldBlock = wrapManagedRegion("demo", "Old rules");
+    const newBlock = wrapManagedRegion("demo", "New rules");
+    const existing = `${team}\n${oldBlock}\n## Local\nOurs\n`;
+
+    expect(replaceManagedRegion(existing, newBlock, oldBlock)).toEqual({
+      content: `${team}\n${newBlock}\n## Local\nOurs\n`,
+      edited: false,
+    });
+    expect(replaceManagedRegion(team, newBlock).content).toBe(`${team}\n${newBlock}`);
+  });
+
+  it("reports local edits inside the region", () => {
+    const block = wrapManagedRegion("demo", "Rules");
+    const edited = wrapManagedRegion("demo", "Rules, edited");
+
+    expect(replaceManagedRegion(edited, block, block).edited).toBe(true);
+    expect(removeManagedRegion(`${team}\n${edited}`, block)).toEqual({
+      content: team,
+      edited: true,
+    });
+  });
+
+  it("merges and unmerges managed blocks without touching other content", () => {
+    const block = wrapManagedRegion("demo", "## Testing\nUse vitest");
+    const existing = `${team}\n${wrapManagedRegion("demo", "## Testing\nUse jest")}`;
+
+    const merged = mergeContent(existing, block, "CLAUDE.md");
+    expect(merged.hasConflicts).toBe(false);
+    expect(merged.content).toBe(`${team}\n${block}`);
+
+    expect(unmergeContent(merged.content, block, "CLAUDE.md")).toEqual({
+      content: team,
+      edited: [],
+    });
+  });
+});
+
+describe("managed regions during apply", () => {
+  let tempDir = "";
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "cpm-test-"));
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("updates the managed block in place on re-apply", async () => {
+    const apply = (content: string) =>
+      applyConfiguration(
+        makeConfig("demo", { "CLAUDE.md": content }),
+        { configId: "demo", targetPath: tempDir, mode: "create" },
+        noParents
+      );
+
+    await apply("## Testing\nUse jest\n");
+    const claudeMdPath = join(tempDir, "CLAUDE.md");
+    const applied = await readFile(claudeMdPath, "utf-8");
+    await writeFile(claudeMdPath, `# Team notes\n\n${applied}\n## Local\nOurs\n`, "utf-8");
+
+    const result = await apply("## Testing\nUse vitest\n");
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.filesModified).toEqual(["CLAUDE.md"]);
+    expect(await readFile(claudeMdPath, "utf-8")).toBe(
+      [
+        "# Team notes",
+        "",
+        "<!-- cpm:begin demo -->",
+        "## Testing",
+        "Use vitest",
+        "<!-- cpm:end -->",
+        "",
+        "## Local",
+        "Ours",
+        "",
+      ].join("\n")
+    );
+
+    const detection = await detectExistingConfig(tempDir);
+    expect(detection.managedRegions).toEqual(["demo"]);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, mkdir, writeFile, readFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  parseSectionDirectives,
+  stripMarkdownDirectives,
+} from "../src/lib/config/markdown-directives.js";
+import { resolveInheritance } from "../src/lib/config/resolver.js";
+import { mergeContent } from "../src/lib/apply/merger.js";
+import { applyConfiguration } from "../src/lib/apply/index.js";
+import { IGNORED_DIRECTIVES_WARNING } from "../src/lib/apply/managed-regions.js";
+import { makeConfig, noParents } from "./helpers.js";
+
+const agentsMd = (id: string, content: string, parent?: string) =>
+  makeConfig(id, { "docs/AGENTS.md": content }, { extends: parent });
+
+const parent = [
+  "## Architecture",
+  "Hexagonal",
+  "",
+  "## Code Guidelines",
+  "- Small functions",
+  "",
+  "## Legacy",
+  "Old notes",
+  "",
+].join("\n");
+
+describe("parseSectionDirectives", () => {
+  it("strips directives from the heading", () => {
+    expect(parseSectionDirectives('## Testing <!-- cpm:after "Architecture" -->')).toEqual({
+      heading: "## Testing",
+      directives: { position: { where: "after", heading: "Architecture" } },
+    });
+    expect(parseSectionDirectives("## Setup <!-- cpm:prepend -->").directives).toEqual({
+      body: "prepend",
+    });
+  });
+});
+
+describe("markdown directives during inheritance", () => {
+  it("appends, removes and positions sections of the parent", async () => {
+    const child = agentsMd(
+      "child",
+      [
+        "## Code Guidelines <!-- cpm:append -->",
+        "- No default exports",
+        "",
+        "## Legacy <!-- cpm:remove -->",
+        "",
+        '## Testing <!-- cpm:after "Architecture" -->',
+        "Use vitest",
+        "",
+      ].join("\n"),
+      "parent"
+    );
+
+    const resolved = await resolveInheritance(child, async () => agentsMd("parent", parent));
+
+    expect(resolved.resolvedFiles[0].content).toBe(
+      [
+        "## Architecture",
+        "Hexagonal",
+        "",
+        "## Testing",
+        "Use vitest",
+        "",
+        "## Code Guidelines",
+        "- Small functions",
+        "- No default exports",
+      ].join("\n")
+    );
+  });
+
+  it("keeps unmatched directives for the project on apply", async () => {
+    const child = agentsMd(
+      "child",
+      "## Team <!-- cpm:append -->\n- Ask in #dev\n\n## Notes <!-- cpm:remove -->\n",
+      "parent"
+    );
+    const resolved = await resolveInheritance(child, async () => agentsMd("parent", parent));
+    const content = resolved.resolvedFiles[0].content;
+
+    expect(content).toContain("## Team <!-- cpm:append -->");
+    expect(stripMarkdownDirectives(content)).not.toContain("cpm:");
+
+    const project = "## Team\n- Be kind\n\n## Notes\nScratch\n";
+    const merged = mergeContent(project, content, "docs/AGENTS.md");
+    expect(merged.hasConflicts).toBe(false);
+    expect(merged.content).toContain("## Team\n- Be kind\n- Ask in #dev");
+    expect(merged.content).not.toContain("## Notes");
+    expect(mergeContent(merged.content, content, "docs/AGENTS.md").content).toBe(merged.content);
+  });
+
+  it("acts on sections nested under a parent heading", async () => {
+    const nestedParent = "# Project\n\n## Testing\nUse jest\n\n## Legacy\nOld notes\n";
+    const child = agentsMd(
+      "child",
+      "## Testing <!-- cpm:append -->\nCover edge cases\n\n## Legacy <!-- cpm:remove -->\n",
+      "parent"
+    );
+
+    const resolved = await resolveInheritance(child, async () => agentsMd("parent", nestedParent));
+
+    expect(resolved.resolvedFiles[0].content).toBe(
+      "# Project\n\n## Testing\nUse jest\n\nCover edge cases"
+    );
+  });
+});
+
+describe("markdown directives on apply", () => {
+  let tempDir = "";
+
+  const sections = "# Project\n\n## Testing\nUse jest\n\n## Notes\nScratch\n";
+  const directives =
+    "## Testing <!-- cpm:append -->\nCover edge cases\n\n## Notes <!-- cpm:remove -->\n";
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "cpm-test-"));
+    await mkdir(join(tempDir, "docs"));
+    await writeFile(join(tempDir, "docs/AGENTS.md"), sections, "utf-8");
+    await writeFile(join(tempDir, "CLAUDE.md"), sections, "utf-8");
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  const apply = (files: Record<string, string>) =>
+    applyConfiguration(
+      makeConfig("child", files),
+      { configId: "child", targetPath: tempDir, mode: "merge" },
+      noParents
+    );
+
+  it("acts on the project's sections when merging", async () => {
+    const result = await apply({ "docs/AGENTS.md": directives });
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toBeUndefined();
+    expect(await readFile(join(tempDir, "docs/AGENTS.md"), "utf-8")).toBe(
+      "# Project\n\n## Testing\nUse jest\n\nCover edge cases"
+    );
+  });
+
+  it("warns that they are not applied to the project's sections in CLAUDE.md", async () => {
+    const result = await apply({ "CLAUDE.md": directives });
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual([`CLAUDE.md: ${IGNORED_DIRECTIVES_WARNING}`]);
+
+    const claudeMd = await readFile(join(tempDir, "CLAUDE.md"), "utf-8");
+    expect(claudeMd).toContain(sections.trim());
+    expect(claudeMd).toContain("<!-- cpm:begin child -->\n## Testing\nCover edge cases\n");
+    expect(claudeMd).not.toContain("cpm:append");
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { parseMarkdown, renderMarkdown } from "../src/lib/config/markdown.js";
+import { mergeContent } from "../src/lib/apply/merger.js";
+import { resolveInheritance } from "../src/lib/config/resolver.js";
+import { makeConfig } from "./helpers.js";
+
+describe("parseMarkdown", () => {
+  it("builds a heading hierarchy and ignores headings in code fences", () => {
+    const content = [
+      "# Project",
+      "## Setup",
+      "```bash",
+      "# install dependencies",
+      "npm install",
+      "```",
+      "",
+      "### Node",
+      "Use Node 20",
+      "",
+      "## Testing",
+      "",
+    ].join("\n");
+
+    const root = parseMarkdown(content);
+    const project = root.children[0];
+
+    expect(root.children).toHaveLength(1);
+    expect(project.children.map((s) => s.slug)).toEqual(["setup", "testing"]);
+    expect(project.children[0].body).toContain("# install dependencies");
+    expect(project.children[0].children.map((s) => s.heading)).toEqual(["### Node"]);
+    expect(renderMarkdown(root)).toBe(content);
+  });
+});
+
+describe("mergeContent for markdown", () => {
+  it("matches headings by slug and keeps subsections with their parent", () => {
+    const existing = "## Code Style\nUse tabs\n\n### Naming\ncamelCase\n\n## Notes\nOurs";
+    const incoming = "## code style:\nUse tabs\n\n### Imports\nSorted";
+
+    const result = mergeContent(existing, incoming, "CLAUDE.md");
+
+    expect(result.hasConflicts).toBe(false);
+    expect(result.content).toBe(
+      "## Code Style\nUse tabs\n\n### Naming\ncamelCase\n\n### Imports\nSorted\n\n## Notes\nOurs"
+    );
+  });
+
+  it("places new sections next to the section they follow", () => {
+    const existing = "## A\na\n\n## C\nc";
+    const incoming = "## A\na\n\n## B\nb";
+
+    expect(mergeContent(existing, incoming, "CLAUDE.md").content).toBe(
+      "## A\na\n\n## B\nb\n\n## C\nc"
+    );
+  });
+
+  it("keeps repeated headings apart", () => {
+    const existing = "## Example\none\n\n## Example\ntwo";
+    const incoming = "## Example\none\n\n## Example\ntwo\n\n## Example\nthree";
+
+    expect(mergeContent(existing, incoming, "CLAUDE.md").content).toBe(
+      "## Example\none\n\n## Example\ntwo\n\n## Example\nthree"
+    );
+  });
+});
+
+describe("matching sections across heading levels", () => {
+  const parent = makeConfig("base", {
+    "CLAUDE.md": "# Project\nIntro\n\n## Testing\nUse jest\n\n## Style\nTabs\n",
+  });
+
+  it("lets a child's top-level section replace the parent's nested one", async () => {
+    const child = makeConfig(
+      "app",
+      { "CLAUDE.md": "## Testing\nUse vitest\n\n## Deploy\nFly\n" },
+      { extends: "base" }
+    );
+    const resolved = await resolveInheritance(child, async (id) =>
+      id === "base" ? parent : undefined
+    );
+
+    expect(resolved.resolvedFiles[0].content).toBe(
+      "# Project\nIntro\n\n## Testing\nUse vitest\n\n## Style\nTabs\n\n## Deploy\nFly"
+    );
+  });
+
+  it("merges into the nearest nested section of the project's file", () => {
+    const existing = "# My App\n\n## Overview\nOurs\n\n### Testing\nUse jest";
+    const incoming = "## Testing\nUse jest\n\n## Linting\nUse eslint";
+
+    const result = mergeContent(existing, incoming, "CLAUDE.md");
+
+    expect(result.hasConflicts).toBe(false);
+    expect(result.content).toBe(
+      "# My App\n\n## Overview\nOurs\n\n### Testing\nUse jest\n\n## Linting\nUse eslint"
+    );
+  });
+});
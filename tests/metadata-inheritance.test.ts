@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { resolveInheritance, resolveMetadata } from "../src/lib/config/resolver.js";
+import { validateConfiguration } from "../src/lib/config/validator.js";
+import { LibraryManager } from "../src/lib/library/index.js";
+import type { Configuration } from "../src/lib/config/types.js";
+import { makeConfig, parentsFrom } from "./helpers.js";
+
+const config = (id: string, overrides: Partial<Configuration> = {}) =>
+  makeConfig(id, { "CLAUDE.md": `# ${id}\n` }, { projectTypes: [], languages: [], ...overrides });
+
+const base = config("typescript-base", {
+  projectTypes: ["library"],
+  languages: ["typescript"],
+  tags: ["strict"],
+  testingApproach: "unit",
+});
+const vitest = config("vitest-mixin", { tags: ["vitest"], testingApproach: "tdd" });
+
+describe("metadata inheritance", () => {
+  it("inherits undeclared metadata from the nearest parent", async () => {
+    const child = config("api", { extends: ["typescript-base", "vitest-mixin"] });
+    const resolved = await resolveInheritance(child, parentsFrom([base, vitest]));
+
+    expect(resolved).toMatchObject({
+      projectTypes: ["library"],
+      languages: ["typescript"],
+      tags: ["vitest"],
+      testingApproach: "tdd",
+    });
+    expect(validateConfiguration(child).valid).toBe(false);
+    expect(validateConfiguration(resolved).valid).toBe(true);
+  });
+
+  it("keeps metadata the child declares", async () => {
+    const child = config("python-api", {
+      extends: "typescript-base",
+      languages: ["python"],
+      projectTypes: ["api"],
+    });
+    const resolved = await resolveMetadata(child, parentsFrom([base]));
+
+    expect(resolved.languages).toEqual(["python"]);
+    expect(resolved.projectTypes).toEqual(["api"]);
+    expect(resolved.tags).toEqual(["strict"]);
+  });
+
+  describe("in the library", () => {
+    let tempDir = "";
+    let manager: LibraryManager;
+
+    beforeEach(async () => {
+      tempDir = await mkdtemp(join(tmpdir(), "cpm-test-"));
+      manager = new LibraryManager(tempDir);
+      for (const added of [base, config("api", { extends: "typescript-base" })]) {
+        await manager.addConfiguration(added);
+      }
+    });
+
+    afterEach(async () => {
+      if (tempDir) {
+        await rm(tempDir, { recursive: true, force: true });
+      }
+    });
+
+    it("lists children under their inherited language and project type", async () => {
+      const found = await manager.searchConfigurations({
+        languages: ["typescript"],
+        projectTypes: ["library"],
+      });
+
+      expect(found.map((c) => c.id).sort()).toEqual(["api", "typescript-base"]);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { resolveInheritance, resolveLayers } from "../src/lib/config/resolver.js";
+import type { ConfigurationFile } from "../src/lib/config/types.js";
+import { makeConfig, parentsFrom } from "./helpers.js";
+
+const config = (id: string, parent: string | undefined, files: ConfigurationFile[]) =>
+  makeConfig(id, files, { extends: parent });
+
+const md = (content: string): ConfigurationFile => ({
+  path: "CLAUDE.md",
+  content,
+  type: "markdown",
+});
+const json = (value: unknown): ConfigurationFile => ({
+  path: ".claude/settings.json",
+  content: JSON.stringify(value),
+  type: "json",
+});
+
+const base = config("base", undefined, [
+  md("## Style\nBase style\n\n## Testing\nBase testing\n\n## Review\n- Small PRs\n"),
+  json({ permissions: { allow: ["Read"], deny: ["rm"] }, model: "sonnet" }),
+]);
+const typescript = config("typescript-base", "base", [
+  md("## Style\nPrettier\n\n### Types\nStrict\n"),
+  json({ permissions: { allow: ["Bash(npm:*)"] } }),
+]);
+const app = config("app", "typescript-base", [
+  md("## Review <!-- cpm:append -->\n- Two approvals\n"),
+  json({ model: "opus" }),
+]);
+
+describe("resolution provenance", () => {
+  it("tracks markdown sections and JSON keys through the chain", async () => {
+    const resolved = await resolveInheritance(app, parentsFrom([base, typescript]));
+    const byPath = Object.fromEntries(resolved.provenance!.map((p) => [p.path, p.entries]));
+
+    expect(byPath["CLAUDE.md"]).toEqual([
+      { key: "Style", source: "typescript-base", action: "overridden" },
+      { key: "Style > Types", source: "typescript-base", action: "added" },
+      { key: "Testing", source: "base", action: "added" },
+      { key: "Review", source: "app", action: "merged" },
+    ]);
+    expect(byPath[".claude/settings.json"]).toEqual([
+      { key: "permissions.allow", source: "typescript-base", action: "merged" },
+      { key: "permissions.deny", source: "base", action: "added" },
+      { key: "model", source: "app", action: "overridden" },
+    ]);
+  });
+
+  it("keeps each layer's own provenance when composing layers", async () => {
+    const team = config("team-rules", undefined, [md("## Security\nNo secrets\n")]);
+    const resolved = await resolveLayers([app, team], parentsFrom([base, typescript]));
+    const entries = resolved.provenance!.find((p) => p.path === "CLAUDE.md")!.entries;
+
+    expect(entries).toContainEqual({ key: "Testing", source: "base", action: "added" });
+    expect(entries).toContainEqual({ key: "Security", source: "team-rules", action: "added" });
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import { isSettingsFile, mergeSettings } from "../src/lib/apply/settings-merge.js";
+import { mergeContent, mergeThreeWay } from "../src/lib/apply/merger.js";
+import type { MergeRules } from "../src/lib/config/types.js";
+
+describe("isSettingsFile", () => {
+  it("matches shared and local Claude Code settings", () => {
+    expect(isSettingsFile(".claude/settings.json")).toBe(true);
+    expect(isSettingsFile("packages/app/.claude/settings.local.json")).toBe(true);
+    expect(isSettingsFile("settings.json")).toBe(false);
+    expect(isSettingsFile(".claude/other.json")).toBe(false);
+  });
+});
+
+describe("mergeSettings", () => {
+  it("keeps deny rules and drops contradicting allow rules", () => {
+    const result = mergeSettings(
+      { permissions: { allow: ["Bash(rm:*)", "Read(*)"], deny: ["Read(.env)"] } },
+      { permissions: { allow: ["Read(.env)"], ask: ["Bash(git push:*)"], deny: ["Bash(rm:*)"] } },
+      { "permissions.deny": "replace" }
+    );
+
+    expect(result.settings).toEqual({
+      permissions: {
+        allow: ["Read(*)"],
+        ask: ["Bash(git push:*)"],
+        deny: ["Read(.env)", "Bash(rm:*)"],
+      },
+    });
+    expect(result.warnings).toEqual([
+      "Bash(rm:*) is in both permissions.allow and permissions.deny; kept deny",
+      "Read(.env) is in both permissions.allow and permissions.deny; kept deny",
+    ]);
+  });
+
+  it("keeps deny rules when an enclosing key is replaced", () => {
+    const existing = { model: "opus", permissions: { allow: ["Read(*)"], deny: ["Read(.env)"] } };
+    const incoming = { model: "sonnet", permissions: { allow: ["Read(.env)", "Edit(*)"] } };
+
+    const replaced: MergeRules[] = [{ permissions: "replace" }, { "": "replace" }];
+    for (const rules of replaced) {
+      const result = mergeSettings(existing, incoming, rules);
+
+      expect(result.settings).toMatchObject({
+        permissions: { allow: ["Edit(*)"], deny: ["Read(.env)"] },
+      });
+      expect(result.warnings).toContain(
+        "Read(.env) is in both permissions.allow and permissions.deny; kept deny"
+      );
+    }
+  });
+
+  it("groups hooks by matcher and removes duplicates", () => {
+    const lint = { type: "command", command: "npm run lint" };
+    const format = { type: "command", command: "npm run format" };
+
+    const result = mergeSettings(
+      { hooks: { PostToolUse: [{ matcher: "Edit", hooks: [lint] }] } },
+      {
+        hooks: {
+          PostToolUse: [
+            { matcher: "Edit", hooks: [lint, format] },
+            { matcher: "Write", hooks: [lint] },
+          ],
+        },
+      }
+    );
+
+    expect(result.settings).toEqual({
+      hooks: {
+        PostToolUse: [
+          { matcher: "Edit", hooks: [lint, format] },
+          { matcher: "Write", hooks: [lint] },
+        ],
+      },
+    });
+  });
+
+  it("keeps the project's model and env values unless told otherwise", () => {
+    const existing = { model: "opus", env: { DEBUG: "1" } };
+    const incoming = { model: "sonnet", env: { DEBUG: "0", CI: "true" } };
+
+    const kept = mergeSettings(existing, incoming);
+    expect(kept.settings).toEqual({ model: "opus", env: { DEBUG: "1", CI: "true" } });
+    expect(kept.warnings).toEqual([
+      'Kept project model "opus" over "sonnet"',
+      'Kept project env.DEBUG "1" over "0"',
+    ]);
+
+    const replaced = mergeSettings(existing, incoming, { model: "replace" });
+    expect(replaced.settings).toMatchObject({ model: "sonnet" });
+  });
+});
+
+describe("settings merges in mergeContent", () => {
+  it("uses the settings merger for settings files only", () => {
+    const existing = JSON.stringify({ permissions: { allow: ["Bash(curl:*)"] } });
+    const incoming = JSON.stringify({ permissions: { deny: ["Bash(curl:*)"] } });
+
+    const settings = mergeContent(existing, incoming, ".claude/settings.json");
+    expect(JSON.parse(settings.content)).toEqual({
+      permissions: { allow: [], deny: ["Bash(curl:*)"] },
+    });
+    expect(settings.warnings).toHaveLength(1);
+
+    const other = mergeContent(existing, incoming, "config/permissions.json");
+    expect(JSON.parse(other.content)).toEqual({
+      permissions: { allow: ["Bash(curl:*)"], deny: ["Bash(curl:*)"] },
+    });
+  });
+
+  it("resolves contradictions left by a three-way merge", () => {
+    const base = JSON.stringify({ permissions: { allow: [], deny: [] } });
+    const existing = JSON.stringify({ permissions: { allow: ["WebFetch"], deny: [] } });
+    const incoming = JSON.stringify({ permissions: { allow: [], deny: ["WebFetch"] } });
+
+    const result = mergeThreeWay(base, existing, incoming, ".claude/settings.json");
+
+    expect(result.hasConflicts).toBe(false);
+    expect(JSON.parse(result.content)).toEqual({ permissions: { allow: [], deny: ["WebFetch"] } });
+    expect(result.warnings).toHaveLength(1);
+  });
+
+  it("keeps every deny rule and the project's model and env in a three-way merge", () => {
+    const base = JSON.stringify({
+      model: "sonnet",
+      env: { DEBUG: "0" },
+      permissions: { deny: ["Bash(rm)"] },
+    });
+    const existing = JSON.stringify({
+      model: "opus",
+      env: { DEBUG: "1" },
+      permissions: { deny: ["Bash(rm)", "Read(.env)"] },
+    });
+    const incoming = JSON.stringify({
+      model: "haiku",
+      env: { DEBUG: "2" },
+      permissions: { deny: ["Bash(curl)"] },
+    });
+
+    const replaced: MergeRules[] = [{ permissions: "replace" }, { "permissions.deny": "replace" }];
+    for (const rules of replaced) {
+      const result = mergeThreeWay(base, existing, incoming, ".claude/settings.json", rules);
+
+      expect(result.hasConflicts).toBe(false);
+      expect(JSON.parse(result.content)).toEqual({
+        model: "opus",
+        env: { DEBUG: "1" },
+        permissions: { deny: expect.arrayContaining(["Bash(rm)", "Read(.env)", "Bash(curl)"]) },
+      });
+      expect(result.warnings).toEqual([
+        'Kept project model "opus" over "haiku"',
+        'Kept project env.DEBUG "1" over "2"',
+      ]);
+    }
+
+    // Values the project left as applied follow the configuration
+    const untouched = mergeThreeWay(base, base, incoming, ".claude/settings.json");
+    expect(JSON.parse(untouched.content)).toMatchObject({ model: "haiku", env: { DEBUG: "2" } });
+    expect(untouched.warnings).toEqual([]);
+  });
+});
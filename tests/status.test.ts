@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { applyConfiguration } from "../src/lib/apply/index.js";
+import { readLockfile } from "../src/lib/apply/lockfile.js";
+import { getProjectStatus } from "../src/lib/apply/status.js";
+import { resolveLayers } from "../src/lib/config/resolver.js";
+import { LibraryManager } from "../src/lib/library/index.js";
+import { program } from "../src/cli/index.js";
+import type { Configuration } from "../src/lib/config/types.js";
+import { makeConfig, noParents } from "./helpers.js";
+
+const app = makeConfig("app", [
+  { path: "CLAUDE.md", content: "# App\n", type: "markdown" },
+  { path: "AGENTS.md", content: "# Agents\n", type: "markdown" },
+  { path: "NOTES.md", content: "# Notes\n", type: "markdown" },
+  { path: "OLD.md", content: "# Old\n", type: "markdown" },
+]);
+
+describe("project status", () => {
+  let tempDir = "";
+
+  const apply = (configs: Configuration[]) =>
+    applyConfiguration(
+      configs,
+      { configId: configs[0].id, targetPath: tempDir, mode: "create" },
+      noParents
+    );
+
+  const status = async (configs: Configuration[]) =>
+    getProjectStatus(
+      tempDir,
+      (await readLockfile(tempDir))!,
+      await resolveLayers(configs, noParents)
+    );
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "cpm-test-"));
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("reports an untouched project as unchanged", async () => {
+    await apply([app]);
+    const result = await status([app]);
+
+    expect(result.drifted).toBe(false);
+    expect(result.files.every((f) => f.state === "unchanged")).toBe(true);
+    expect(result.files.find((f) => f.diff)).toBeUndefined();
+  });
+
+  it("combines local and upstream changes into modified, outdated and diverged", async () => {
+    await apply([app]);
+    await writeFile(join(tempDir, "CLAUDE.md"), "# App\n\nOurs\n", "utf-8");
+    await writeFile(join(tempDir, "AGENTS.md"), "# Agents\n\nOurs\n", "utf-8");
+    await rm(join(tempDir, "NOTES.md"));
+
+    const next = makeConfig(
+      "app",
+      [
+        { path: "CLAUDE.md", content: "# App\n", type: "markdown" },
+        { path: "AGENTS.md", content: "# Agents v2\n", type: "markdown" },
+        { path: "NOTES.md", content: "# Notes\n", type: "markdown" },
+        { path: "NEW.md", content: "# New\n", type: "markdown" },
+      ],
+      { version: "1.1.0" }
+    );
+    const result = await status([next]);
+
+    expect(result).toMatchObject({ appliedVersion: "1.0.0", currentVersion: "1.1.0" });
+    expect(
+      result.files.map(({ path, state, local, upstream }) => [path, state, local, upstream])
+    ).toEqual([
+      ["AGENTS.md", "diverged", "modified", "changed"],
+      ["CLAUDE.md", "modified", "modified", "unchanged"],
+      ["NEW.md", "outdated", "unchanged", "added"],
+      ["NOTES.md", "modified", "missing", "unchanged"],
+      ["OLD.md", "outdated", "unchanged", "removed"],
+    ]);
+    expect(result.drifted).toBe(true);
+    expect(result.files.find((f) => f.path === "CLAUDE.md")!.diff?.hasDifferences).toBe(true);
+  });
+
+  it("resolves every layer of a layered lock", async () => {
+    const security = makeConfig("security", [
+      { path: "SECURITY.md", content: "# Security\n", type: "markdown" },
+    ]);
+    await apply([app, security]);
+    expect((await readLockfile(tempDir))!.layers).toEqual(["app", "security"]);
+
+    expect((await status([app, security])).drifted).toBe(false);
+
+    const withoutSecurity = await status([app]);
+    expect(withoutSecurity.files.find((f) => f.path === "SECURITY.md")).toMatchObject({
+      state: "outdated",
+      upstream: "removed",
+    });
+  });
+
+  describe("status --exit-code", () => {
+    let libraryPath = "";
+    let exit: ReturnType<typeof vi.spyOn>;
+
+    const run = () =>
+      program.parseAsync(
+        ["--library", libraryPath, "status", join(tempDir, "project"), "--exit-code"],
+        { from: "user" }
+      );
+
+    beforeEach(async () => {
+      libraryPath = join(tempDir, "library");
+      const library = new LibraryManager(libraryPath);
+      await library.addConfiguration(app);
+      await applyConfiguration(
+        await library.getConfiguration("app"),
+        { configId: "app", targetPath: join(tempDir, "project"), mode: "create" },
+        noParents
+      );
+
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      exit = vi.spyOn(process, "exit").mockImplementation(() => undefined as never);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("exits with status 1 only when the project has drifted", async () => {
+      await run();
+      expect(exit).not.toHaveBeenCalled();
+
+      await writeFile(join(tempDir, "project", "CLAUDE.md"), "# Edited\n", "utf-8");
+      await run();
+      expect(exit).toHaveBeenCalledWith(1);
+    });
+  });
+});
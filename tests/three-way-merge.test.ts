@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile, readFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { mergeThreeWay } from "../src/lib/apply/merger.js";
+import { applyConfiguration } from "../src/lib/apply/index.js";
+import { makeConfig } from "./helpers.js";
+
+describe("mergeThreeWay", () => {
+  it("keeps local edits to sections the configuration did not change", () => {
+    const base = "# Project\n\n## Style\nUse tabs\n\n## Testing\nUse vitest";
+    const existing = "# Project\n\n## Style\nUse spaces\n\n## Testing\nUse vitest";
+    const updated = "# Project\n\n## Style\nUse tabs\n\n## Testing\nUse vitest with coverage";
+
+    const result = mergeThreeWay(base, existing, updated, "CLAUDE.md");
+
+    expect(result.hasConflicts).toBe(false);
+    expect(result.content).toContain("Use spaces");
+    expect(result.content).toContain("Use vitest with coverage");
+  });
+
+  it("merges non-overlapping line changes within the same section", () => {
+    const base = "## Rules\n- one\n- two\n- three";
+    const existing = "## Rules\n- one (local)\n- two\n- three";
+    const updated = "## Rules\n- one\n- two\n- three\n- four";
+
+    const result = mergeThreeWay(base, existing, updated, "CLAUDE.md");
+
+    expect(result.hasConflicts).toBe(false);
+    expect(result.content).toBe("## Rules\n- one (local)\n- two\n- three\n- four");
+  });
+
+  it("flags overlapping changes as conflicts", () => {
+    const result = mergeThreeWay("a\nb\nc", "a\nlocal\nc", "a\nupstream\nc", "notes.txt");
+
+    expect(result.hasConflicts).toBe(true);
+    expect(result.conflictMarkers).toBe(1);
+    expect(result.content).toBe("a\n<<<<<<< EXISTING\nlocal\n=======\nupstream\n>>>>>>> NEW\nc");
+  });
+
+  it("merges JSON keys changed on different sides", () => {
+    const base = JSON.stringify({ model: "a", permissions: { allow: ["x"] } });
+    const existing = JSON.stringify({ model: "b", permissions: { allow: ["x", "local"] } });
+    const updated = JSON.stringify({ model: "a", permissions: { allow: ["y"] }, env: { A: "1" } });
+
+    const result = mergeThreeWay(base, existing, updated, ".claude/settings.json");
+
+    expect(result.hasConflicts).toBe(false);
+    expect(JSON.parse(result.content)).toEqual({
+      model: "b",
+      permissions: { allow: ["local", "y"] },
+      env: { A: "1" },
+    });
+  });
+
+  it("reports JSON keys changed differently on both sides", () => {
+    const result = mergeThreeWay('{"model":"a"}', '{"model":"b"}', '{"model":"c"}', "x.json");
+
+    expect(result.hasConflicts).toBe(true);
+    expect(result.conflictMarkers).toBe(1);
+  });
+
+  it("merges YAML by key, keeping project comments and applying upstream removals", () => {
+    const base = "node: 18\nlint: true\nsteps:\n  - build\n  - test\n";
+    const existing =
+      "# ours\nnode: 18 # pinned\nlint: true\nsteps:\n  - build\n  - test\n  - deploy\n";
+    const updated = "node: 20\nsteps:\n  - build\n  - check\n";
+
+    const result = mergeThreeWay(base, existing, updated, ".github/ci.yml");
+
+    expect(result.hasConflicts).toBe(false);
+    expect(result.content).toBe(
+      "# ours\nnode: 20 # pinned\nsteps:\n  - build\n  - deploy\n  - check\n"
+    );
+  });
+
+  it("reports YAML values changed differently on both sides", () => {
+    const result = mergeThreeWay("node: 18\n", "node: 19\n", "node: 20\n", "ci.yaml");
+
+    expect(result.hasConflicts).toBe(true);
+    expect(result.content).toContain("node: 19");
+    expect(result.content).toContain("node: 20");
+  });
+});
+
+describe("applyConfiguration with a previous apply", () => {
+  let tempDir = "";
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "cpm-test-"));
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("uses the originally applied content as merge base", async () => {
+    const v1 = makeConfig("demo", { "CLAUDE.md": "## Style\nUse tabs\n\n## Testing\nUse vitest" });
+    await applyConfiguration(
+      v1,
+      { configId: "demo", targetPath: tempDir, mode: "create" },
+      async () => undefined
+    );
+
+    await writeFile(
+      join(tempDir, "CLAUDE.md"),
+      "## Style\nUse spaces\n\n## Testing\nUse vitest",
+      "utf-8"
+    );
+
+    const v2 = makeConfig("demo", {
+      "CLAUDE.md": "## Style\nUse tabs\n\n## Testing\nUse vitest with coverage",
+    });
+    const result = await applyConfiguration(
+      v2,
+      { configId: "demo", targetPath: tempDir, mode: "merge" },
+      async () => undefined
+    );
+
+    expect(result.success).toBe(true);
+    const content = await readFile(join(tempDir, "CLAUDE.md"), "utf-8");
+    expect(content).toContain("Use spaces");
+    expect(content).toContain("Use vitest with coverage");
+  });
+});
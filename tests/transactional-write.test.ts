@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile, readFile, readdir, mkdir, stat, chmod } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { writeFilesToProject } from "../src/lib/config/writer.js";
+
+describe("writeFilesToProject transactions", () => {
+  let tempDir = "";
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "cpm-test-"));
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("restores files already written when a later write fails", async () => {
+    await writeFile(join(tempDir, "CLAUDE.md"), "original", "utf-8");
+    // A non-empty directory cannot be replaced by a file
+    await mkdir(join(tempDir, "notes", "keep"), { recursive: true });
+
+    const result = await writeFilesToProject(
+      [
+        { path: "CLAUDE.md", content: "updated", type: "markdown" },
+        { path: "new.md", content: "new", type: "markdown" },
+        { path: "notes", content: "blocked", type: "text" },
+      ],
+      tempDir
+    );
+
+    expect(result.created).toEqual([]);
+    expect(result.errors).toHaveLength(1);
+    expect(result.rolledBack).toBe(true);
+    expect(result.restored.sort()).toEqual(["CLAUDE.md", "new.md"]);
+    expect(await readFile(join(tempDir, "CLAUDE.md"), "utf-8")).toBe("original");
+    expect((await readdir(tempDir)).sort()).toEqual(["CLAUDE.md", "notes"]);
+  });
+
+  it("removes directories created for files that were rolled back", async () => {
+    await mkdir(join(tempDir, "notes", "keep"), { recursive: true });
+
+    const result = await writeFilesToProject(
+      [
+        { path: ".claude/hooks/lint.sh", content: "lint", type: "text" },
+        { path: "notes", content: "blocked", type: "text" },
+      ],
+      tempDir
+    );
+
+    expect(result.rolledBack).toBe(true);
+    expect((await readdir(tempDir)).sort()).toEqual(["notes"]);
+  });
+
+  it("keeps the mode of files it replaces", async () => {
+    await mkdir(join(tempDir, ".claude/hooks"), { recursive: true });
+    await writeFile(join(tempDir, ".claude/hooks/lint.sh"), "old", "utf-8");
+    await chmod(join(tempDir, ".claude/hooks/lint.sh"), 0o755);
+
+    const result = await writeFilesToProject(
+      [{ path: ".claude/hooks/lint.sh", content: "new", type: "text" }],
+      tempDir
+    );
+
+    expect(result.errors).toEqual([]);
+    expect((await stat(join(tempDir, ".claude/hooks/lint.sh"))).mode & 0o777).toBe(0o755);
+  });
+
+  it("writes every file when nothing fails", async () => {
+    const result = await writeFilesToProject(
+      [
+        { path: "CLAUDE.md", content: "a", type: "markdown" },
+        { path: ".claude/settings.json", content: "{}", type: "json" },
+      ],
+      tempDir
+    );
+
+    expect(result.created).toEqual(["CLAUDE.md", ".claude/settings.json"]);
+    expect(result.rolledBack).toBe(false);
+    expect(await readdir(join(tempDir, ".claude"))).toEqual(["settings.json"]);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile, readFile, access } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { applyConfiguration } from "../src/lib/apply/index.js";
+import { readLockfile } from "../src/lib/apply/lockfile.js";
+import { planUnapply, executeUnapply } from "../src/lib/apply/unapply.js";
+import { resolveInheritance } from "../src/lib/config/resolver.js";
+import type { Configuration } from "../src/lib/config/types.js";
+
+describe("unapply", () => {
+  let tempDir = "";
+
+  const config: Configuration = {
+    id: "demo",
+    name: "Demo",
+    description: "demo",
+    version: "1.0.0",
+    projectTypes: ["cli"],
+    languages: ["typescript"],
+    tags: [],
+    created: new Date(),
+    updated: new Date(),
+    files: ["CLAUDE.md", ".claude/settings.json", "notes.md"],
+    fileContents: [
+      { path: "CLAUDE.md", content: "## Testing\nUse vitest\n", type: "markdown" },
+      {
+        path: ".claude/settings.json",
+        content: JSON.stringify({ permissions: { allow: ["Bash(npm test)"] } }),
+        type: "json",
+      },
+      { path: "notes.md", content: "notes", type: "markdown" },
+    ],
+  };
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "cpm-test-"));
+    await writeFile(join(tempDir, "CLAUDE.md"), "## Team\nOur rules\n", "utf-8");
+    await applyConfiguration(
+      config,
+      { configId: "demo", targetPath: tempDir, mode: "merge" },
+      async () => undefined
+    );
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  async function plan() {
+    const resolved = await resolveInheritance(config, async () => undefined);
+    return planUnapply(tempDir, resolved, await readLockfile(tempDir));
+  }
+
+  it("removes contributed files and sections but keeps project content", async () => {
+    const result = await executeUnapply(await plan(), tempDir);
+
+    expect(result.success).toBe(true);
+    expect(result.filesRemoved.sort()).toEqual([".claude/settings.json", "notes.md"]);
+    expect(await readFile(join(tempDir, "CLAUDE.md"), "utf-8")).toBe("## Team\nOur rules\n");
+    await expect(access(join(tempDir, ".claude", "cpm-lock.json"))).rejects.toThrow();
+  });
+
+  it("reports contributions edited in the project", async () => {
+    await writeFile(
+      join(tempDir, ".claude", "settings.json"),
+      JSON.stringify({ permissions: { allow: ["Bash(npm test)", "Read"] }, model: "x" }),
+      "utf-8"
+    );
+    await writeFile(
+      join(tempDir, "CLAUDE.md"),
+      "## Team\nOur rules\n\n## Testing\nUse vitest --run\n",
+      "utf-8"
+    );
+
+    const unapplyPlan = await plan();
+    const byPath = new Map(unapplyPlan.files.map((f) => [f.path, f]));
+
+    expect(byPath.get(".claude/settings.json")?.action).toBe("strip");
+    expect(byPath.get("CLAUDE.md")?.action).toBe("edited");
+    expect(byPath.get("CLAUDE.md")?.edited).toEqual(["## Testing"]);
+
+    await executeUnapply(unapplyPlan, tempDir);
+
+    expect(JSON.parse(await readFile(join(tempDir, ".claude", "settings.json"), "utf-8"))).toEqual({
+      permissions: { allow: ["Read"] },
+      model: "x",
+    });
+    expect(await readFile(join(tempDir, "CLAUDE.md"), "utf-8")).toContain("Use vitest --run");
+  });
+});
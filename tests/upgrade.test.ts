@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, mkdir, rm, writeFile, readFile, access } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { applyConfiguration } from "../src/lib/apply/index.js";
+import { readLockfile, hashContent } from "../src/lib/apply/lockfile.js";
+import {
+  planUpgrade,
+  executeUpgrade,
+  getUpgradeConflicts,
+  type UpgradeResolution,
+} from "../src/lib/apply/upgrade.js";
+import { resolveInheritance } from "../src/lib/config/resolver.js";
+import { LibraryManager } from "../src/lib/library/index.js";
+import { program } from "../src/cli/index.js";
+import { EXIT_CODES } from "../src/lib/constants.js";
+import type { Configuration } from "../src/lib/config/types.js";
+import { makeConfig, noParents } from "./helpers.js";
+
+const v1 = makeConfig("app", {
+  "rules.txt": "one\ntwo\nthree\n",
+  "same.txt": "same\n",
+  "old.txt": "old\n",
+  "edited.txt": "edited\n",
+});
+const v2 = makeConfig(
+  "app",
+  {
+    "rules.txt": "one\ntwo\nthree\nfour\n",
+    "same.txt": "same\n",
+    "new.txt": "new\n",
+  },
+  { version: "2.0.0" }
+);
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe("upgrade", () => {
+  let tempDir = "";
+
+  const project = (path: string) => readFile(join(tempDir, path), "utf-8");
+
+  const plan = async (config: Configuration) =>
+    planUpgrade(
+      tempDir,
+      (await readLockfile(tempDir))!,
+      await resolveInheritance(config, noParents)
+    );
+
+  const execute = async (config: Configuration, resolutions: UpgradeResolution[] = []) => {
+    const lock = (await readLockfile(tempDir))!;
+    const resolved = await resolveInheritance(config, noParents);
+    return executeUpgrade(
+      await planUpgrade(tempDir, lock, resolved),
+      tempDir,
+      resolved,
+      lock,
+      resolutions
+    );
+  };
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "cpm-test-"));
+    await applyConfiguration(
+      v1,
+      { configId: "app", targetPath: tempDir, mode: "create" },
+      noParents
+    );
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("plans nothing when the lock is already current", async () => {
+    const result = await plan(v1);
+
+    expect(result).toMatchObject({ fromVersion: "1.0.0", toVersion: "1.0.0", hasChanges: false });
+    expect(result.files.every((f) => f.action === "unchanged")).toBe(true);
+  });
+
+  it("updates untouched files and follows files added and removed upstream", async () => {
+    await writeFile(join(tempDir, "edited.txt"), "edited locally\n", "utf-8");
+
+    const upgradePlan = await plan(v2);
+    expect(Object.fromEntries(upgradePlan.files.map((f) => [f.path, f.action]))).toEqual({
+      "edited.txt": "keep",
+      "new.txt": "create",
+      "old.txt": "remove",
+      "rules.txt": "update",
+      "same.txt": "unchanged",
+    });
+
+    const result = await execute(v2);
+    expect(result).toMatchObject({
+      success: true,
+      filesCreated: ["new.txt"],
+      filesModified: ["rules.txt"],
+      filesRemoved: ["old.txt"],
+      filesSkipped: ["edited.txt"],
+    });
+    expect(await project("rules.txt")).toBe("one\ntwo\nthree\nfour\n");
+    expect(await project("edited.txt")).toBe("edited locally\n");
+    expect(await exists(join(tempDir, "old.txt"))).toBe(false);
+
+    const lock = (await readLockfile(tempDir))!;
+    expect(lock.version).toBe("2.0.0");
+    expect(Object.keys(lock.files).sort()).toEqual(["new.txt", "rules.txt", "same.txt"]);
+    expect(lock.files["rules.txt"].sourceHash).toBe(hashContent("one\ntwo\nthree\nfour\n"));
+  });
+
+  it("three-way merges locally edited files with the applied content as base", async () => {
+    await writeFile(join(tempDir, "rules.txt"), "one (local)\ntwo\nthree\n", "utf-8");
+
+    const upgradePlan = await plan(v2);
+    const rules = upgradePlan.files.find((f) => f.path === "rules.txt")!;
+    expect(rules).toMatchObject({ action: "merge", baseContent: "one\ntwo\nthree\n" });
+
+    await execute(v2);
+    expect(await project("rules.txt")).toBe("one (local)\ntwo\nthree\nfour\n");
+  });
+
+  it("holds back conflicting upgrades until they are resolved", async () => {
+    await writeFile(join(tempDir, "rules.txt"), "one\ntwo\nthree\nlocal\n", "utf-8");
+
+    const upgradePlan = await plan(v2);
+    expect(upgradePlan.hasConflicts).toBe(true);
+    expect(getUpgradeConflicts(upgradePlan).map((c) => c.path)).toEqual(["rules.txt"]);
+
+    const held = await execute(v2);
+    expect(held.success).toBe(false);
+    expect(held.conflicts.map((c) => c.path)).toEqual(["rules.txt"]);
+    expect(await exists(join(tempDir, "new.txt"))).toBe(false);
+    expect((await readLockfile(tempDir))!.version).toBe("1.0.0");
+
+    const resolved = await execute(v2, [
+      { path: "rules.txt", resolution: "merge", content: "one\ntwo\nthree\nlocal\nfour\n" },
+    ]);
+    expect(resolved.success).toBe(true);
+    expect(await project("rules.txt")).toBe("one\ntwo\nthree\nlocal\nfour\n");
+    expect((await readLockfile(tempDir))!.version).toBe("2.0.0");
+  });
+
+  it("leaves files the project kept on apply alone", async () => {
+    const project = join(tempDir, "kept");
+    await mkdir(project);
+    await writeFile(join(project, "rules.txt"), "ours\n", "utf-8");
+    await applyConfiguration(
+      v1,
+      { configId: "app", targetPath: project, mode: "create", strategy: "ours" },
+      noParents
+    );
+
+    const lock = (await readLockfile(project))!;
+    expect(lock.files["rules.txt"].kept).toBe(true);
+
+    const resolved = await resolveInheritance(v2, noParents);
+    const upgradePlan = await planUpgrade(project, lock, resolved);
+    expect(upgradePlan.files.find((f) => f.path === "rules.txt")!.action).toBe("keep");
+
+    const result = await executeUpgrade(upgradePlan, project, resolved, lock);
+    expect(result.filesSkipped).toContain("rules.txt");
+    expect(await readFile(join(project, "rules.txt"), "utf-8")).toBe("ours\n");
+    expect((await readLockfile(project))!.files["rules.txt"].kept).toBe(true);
+  });
+
+  describe("upgrade --no-interactive", () => {
+    let exit: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(async () => {
+      const library = new LibraryManager(join(tempDir, "library"));
+      await library.addConfiguration(v2);
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      exit = vi.spyOn(process, "exit").mockImplementation(() => undefined as never);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("fails on conflicts without writing anything", async () => {
+      await writeFile(join(tempDir, "rules.txt"), "one\ntwo\nthree\nlocal\n", "utf-8");
+
+      await program.parseAsync(
+        ["--library", join(tempDir, "library"), "upgrade", tempDir, "--no-interactive"],
+        { from: "user" }
+      );
+
+      expect(exit).toHaveBeenCalledWith(EXIT_CODES.CONFLICT);
+      expect(await exists(join(tempDir, "new.txt"))).toBe(false);
+      expect((await readLockfile(tempDir))!.version).toBe("1.0.0");
+    });
+  });
+});
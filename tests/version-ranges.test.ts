@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { isValidRange, satisfies } from "../src/lib/config/semver.js";
+import { getParentRefs, resolveInheritance } from "../src/lib/config/resolver.js";
+import { validateConfiguration } from "../src/lib/config/validator.js";
+import { ParentVersionMismatchError } from "../src/lib/errors.js";
+import { makeConfig } from "./helpers.js";
+
+const config = (id: string, version: string, parents?: string | string[]) =>
+  makeConfig(id, { "CLAUDE.md": `## ${id}\n${version}\n` }, { version, extends: parents });
+
+describe("semver ranges", () => {
+  it("matches caret, tilde, comparison and x-ranges", () => {
+    expect(satisfies("1.4.0", "^1.2")).toBe(true);
+    expect(satisfies("2.0.0", "^1.2")).toBe(false);
+    expect(satisfies("0.2.5", "^0.2.1")).toBe(true);
+    expect(satisfies("0.3.0", "^0.2.1")).toBe(false);
+    expect(satisfies("1.2.9", "~1.2.3")).toBe(true);
+    expect(satisfies("1.3.0", "~1.2.3")).toBe(false);
+    expect(satisfies("1.5.0", ">=1.2 <2")).toBe(true);
+    expect(satisfies("3.1.0", "1.x || 3.x")).toBe(true);
+    expect(satisfies("1.0.0", "*")).toBe(true);
+    expect(satisfies("1.2.3", "1.2.3")).toBe(true);
+  });
+
+  it("accepts a space after an operator and hyphen ranges", () => {
+    expect(satisfies("1.5.0", ">= 1.2 < 2")).toBe(true);
+    expect(satisfies("2.0.0", ">= 1.2 < 2")).toBe(false);
+    expect(satisfies("1.4.9", "1.2 - 1.4")).toBe(true);
+    expect(satisfies("1.5.0", "1.2 - 1.4")).toBe(false);
+    expect(satisfies("1.1.9", "1.2 - 1.4")).toBe(false);
+    expect(satisfies("1.4.3", "1.2.0 - 1.4.2 || ^1.4.3")).toBe(true);
+    expect(isValidRange("1.2 - ^1.4")).toBe(false);
+    expect(isValidRange("1.2 - ")).toBe(false);
+  });
+
+  it("rejects malformed ranges", () => {
+    expect(isValidRange("^1.2")).toBe(true);
+    expect(isValidRange("latest")).toBe(false);
+    expect(isValidRange("^1.2.3.4")).toBe(false);
+  });
+});
+
+describe("version-constrained parents", () => {
+  it("splits ids and ranges in extends", () => {
+    expect(getParentRefs(config("app", "1.0.0", ["base@^1.2", "mixin"]))).toEqual([
+      { id: "base", range: "^1.2" },
+      { id: "mixin" },
+    ]);
+  });
+
+  it("passes the range to the loader and checks the version it returns", async () => {
+    const versions = [config("base", "2.0.0"), config("base", "1.3.0")];
+    const app = config("app", "1.0.0", "base@^1.2");
+
+    const resolved = await resolveInheritance(app, async (_id, range) =>
+      versions.find((v) => !range || satisfies(v.version, range))
+    );
+    expect(resolved.resolvedFiles[0].content).toContain("## base\n1.3.0");
+
+    await expect(resolveInheritance(app, async () => versions[0])).rejects.toThrow(
+      ParentVersionMismatchError
+    );
+  });
+
+  it("reports invalid ranges when validating", () => {
+    expect(validateConfiguration(config("app", "1.0.0", "base@soon")).errors).toEqual([
+      "Invalid version range for parent base: soon",
+    ]);
+  });
+});
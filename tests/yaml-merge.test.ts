@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { mergeYamlContent } from "../src/lib/config/yaml-merge.js";
+import { mergeContent } from "../src/lib/apply/merger.js";
+
+describe("mergeYamlContent", () => {
+  it("keeps comments, key order and anchors of the base document", () => {
+    const base = [
+      "# Workflow settings",
+      "defaults: &defaults",
+      "  timeout: 10 # seconds",
+      "service:",
+      "  <<: *defaults",
+      "  name: api",
+      "",
+    ].join("\n");
+    const overlay = "defaults:\n  retries: 3\nlogging: true\n";
+
+    const result = mergeYamlContent(base, overlay);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.content).toBe(
+      [
+        "# Workflow settings",
+        "defaults: &defaults",
+        "  timeout: 10 # seconds",
+        "  retries: 3",
+        "service:",
+        "  <<: *defaults",
+        "  name: api",
+        "logging: true",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("unions sequences", () => {
+    const result = mergeYamlContent("tags:\n  - a\n  - b\n", "tags:\n  - b\n  - c\n");
+
+    expect(result.content).toBe("tags:\n  - a\n  - b\n  - c\n");
+  });
+
+  it("reports differing scalars as conflicts", () => {
+    const result = mergeYamlContent("model: a\nlevel: 1\n", "model: b\nlevel: 1\n");
+
+    expect(result.conflicts).toEqual(["model"]);
+    expect(result.content).toBe("model: b\nlevel: 1\n");
+    expect(mergeYamlContent("model: a\n", "model: b\n", "base").content).toBe("model: a\n");
+  });
+});
+
+describe("mergeContent for YAML", () => {
+  it("merges project and configuration keys", () => {
+    const result = mergeContent("# ours\nname: app\n", "lint: true\n", ".github/ci.yml");
+
+    expect(result.hasConflicts).toBe(false);
+    expect(result.content).toBe("# ours\nname: app\nlint: true\n");
+  });
+
+  it("returns a conflict instead of overwriting project values", () => {
+    const result = mergeContent("node: 18\n", "node: 20\n", "config.yaml");
+
+    expect(result.hasConflicts).toBe(true);
+    expect(result.content).toContain("node: 18");
+    expect(result.content).toContain("node: 20");
+  });
+});